@@ -0,0 +1,67 @@
+import { createReadStream, createWriteStream, type ReadStream } from 'node:fs';
+import { copyFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import JSZip from 'jszip';
+import type { ZipFileInput } from '../src/zipExport';
+
+/** Maps each File handed to the engine back to the file on disk it was opened from. */
+export type SourceLookup = (file: ZipFileInput['file']) => string | undefined;
+
+// Opens the source only when the ZIP writer starts reading it, so a 5,000-file export
+// doesn't hold 5,000 file descriptors open at once.
+function lazyReadStream(sourcePath: string): Readable {
+  async function* chunks(): AsyncGenerator<Buffer> {
+    const stream: ReadStream = createReadStream(sourcePath);
+    for await (const chunk of stream) {
+      yield chunk as Buffer;
+    }
+  }
+  return Readable.from(chunks(), { objectMode: false });
+}
+
+export async function writeEntriesToDirectory(
+  outDir: string,
+  entries: ZipFileInput[],
+  lookupSource: SourceLookup
+): Promise<void> {
+  for (const entry of entries) {
+    const target = path.join(outDir, ...entry.path.split('/'));
+    await mkdir(path.dirname(target), { recursive: true });
+    if (typeof entry.file === 'string') {
+      await writeFile(target, entry.file);
+      continue;
+    }
+    const sourcePath = lookupSource(entry.file);
+    if (sourcePath) {
+      await copyFile(sourcePath, target);
+    } else {
+      await writeFile(target, new Uint8Array(await entry.file.arrayBuffer()));
+    }
+  }
+}
+
+export async function writeEntriesToZip(
+  zipPath: string,
+  entries: ZipFileInput[],
+  lookupSource: SourceLookup
+): Promise<void> {
+  const zip = new JSZip();
+  for (const entry of entries) {
+    if (typeof entry.file === 'string') {
+      zip.file(entry.path, entry.file);
+      continue;
+    }
+    const sourcePath = lookupSource(entry.file);
+    zip.file(
+      entry.path,
+      sourcePath ? lazyReadStream(sourcePath) : new Uint8Array(await entry.file.arrayBuffer())
+    );
+  }
+
+  await mkdir(path.dirname(zipPath), { recursive: true });
+  const output = createWriteStream(zipPath);
+  zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true }).pipe(output);
+  await finished(output);
+}
@@ -0,0 +1,257 @@
+// cli/sort.ts
+// Headless sorter: classifies a directory tree with the same engine as the browser app
+// and writes the same 706/, DUPLICATES/ and STATE/ layout, as a folder or a ZIP.
+//
+//   npm run sort:cli -- <input-dir> --out <path> [options]
+
+import { openAsBlob } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ScannedDetectionThresholds } from '../src/classify';
+import { runSortEngine, shouldIncludeFile, type SelectedFile } from '../src/engine';
+import { buildReports, buildZipEntries, EXPORT_MODES, summarizeFiles, type ExportMode } from '../src/reports';
+import {
+  compileScheduleConfig,
+  getDefaultConfig,
+  validateScheduleConfig,
+  type ScheduleConfig,
+} from '../src/scheduleConfig';
+import { setPdfWarnings } from '../src/pdfText';
+import { parsePriorRun, type PriorRun } from '../src/priorRun';
+import type { ScheduleId } from '../src/schedules';
+import { EMPTY_ESTATE_PROFILE, getValuationDate, type EstateProfile } from '../src/valuation';
+import { writeEntriesToDirectory, writeEntriesToZip } from './output';
+
+const USAGE = `Usage: npm run sort:cli -- <input-dir> --out <path> [options]
+
+Options:
+  --out <path>              Output folder, or .zip file with --format zip (required)
+  --format <folder|zip>     Write a folder tree or a single ZIP (default: folder)
+  --export-mode <mode>      ${EXPORT_MODES.join(' | ')} (default: full)
+  --rules <file.json>       Rules config exported from the Rules Editor (default: built-in rules)
+  --overrides <file.json>   Review overrides as { "<sha256>": "<schedule id>" }
+  --previous-manifest <f>   STATE/manifest.json of an earlier run: known files keep their
+                            decisions and output paths; STATE/changes.csv lists the changes
+  --min-chars <n>           PDF minimum characters before "likely scanned" (default: 250)
+  --min-text-items <n>      PDF minimum text items before "likely scanned" (default: 30)
+  --max-pdf-mb <n>          Larger PDFs are hashed but not parsed; they go to review as
+                            file_too_large (default: 200)
+  --near-duplicate-pct <n>  Text similarity (50–100) at which distinct files are listed in
+                            duplicates.csv as probable duplicates (default: 85)
+  --date-of-death <date>    Decedent's date of death (YYYY-MM-DD); enables the valuation date check
+  --alternate-valuation     Value on the alternate valuation date, six months after death
+  --concurrency <n>         Files processed in parallel (default: 4)
+  --quiet                   Only print the final summary, without progress or pdf.js warnings
+  -h, --help                Show this help
+
+OCR is browser-only; scanned PDFs and unmatched images go to 706/ReviewNeeded/.
+Image near-duplicate matching is browser-only too; the CLI compares extracted text.
+The local model is browser-only as well; the CLI scores with the keyword rules alone.`;
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+};
+
+class UsageError extends Error {}
+
+function parseInteger(value: string | undefined, name: string, fallback: number, min: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be an integer ≥ ${min}, got "${value}".`);
+  }
+  return parsed;
+}
+
+async function readJsonFile(filePath: string, label: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Could not read ${label} ${filePath}: ${String(error)}`);
+  }
+}
+
+async function loadRules(filePath: string | undefined): Promise<ScheduleConfig> {
+  if (!filePath) return getDefaultConfig();
+  const { config, errors } = validateScheduleConfig(await readJsonFile(filePath, 'rules'));
+  if (!config) {
+    throw new UsageError(`Rules file ${filePath} is invalid:\n  ${errors.join('\n  ')}`);
+  }
+  return config;
+}
+
+async function loadOverrides(filePath: string | undefined): Promise<Record<string, ScheduleId>> {
+  if (!filePath) return {};
+  const raw = await readJsonFile(filePath, 'overrides');
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new UsageError(`Overrides file ${filePath} must be an object of hash → schedule id.`);
+  }
+  return raw as Record<string, ScheduleId>;
+}
+
+async function loadPriorRun(filePath: string | undefined): Promise<PriorRun | undefined> {
+  if (!filePath) return undefined;
+  try {
+    return parsePriorRun(await readJsonFile(filePath, 'previous manifest'));
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(`Previous manifest ${filePath} is invalid: ${(error as Error).message}`);
+  }
+}
+
+// Mirrors webkitRelativePath in the browser: paths start with the picked folder's name.
+async function collectFiles(root: string): Promise<Array<{ absolutePath: string; relativePath: string }>> {
+  const rootName = path.basename(path.resolve(root));
+  const entries = await readdir(root, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && shouldIncludeFile(entry.name))
+    .map((entry) => {
+      const absolutePath = path.join(entry.parentPath, entry.name);
+      const relative = path.relative(root, absolutePath).split(path.sep).join('/');
+      return { absolutePath, relativePath: `${rootName}/${relative}` };
+    })
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      format: { type: 'string', default: 'folder' },
+      'export-mode': { type: 'string', default: 'full' },
+      rules: { type: 'string' },
+      overrides: { type: 'string' },
+      'previous-manifest': { type: 'string' },
+      'min-chars': { type: 'string' },
+      'min-text-items': { type: 'string' },
+      'max-pdf-mb': { type: 'string' },
+      'near-duplicate-pct': { type: 'string' },
+      'date-of-death': { type: 'string' },
+      'alternate-valuation': { type: 'boolean', default: false },
+      concurrency: { type: 'string' },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const inputDir = positionals[0];
+  if (!inputDir || positionals.length > 1) {
+    throw new UsageError('Expected exactly one input directory.');
+  }
+  if (!values.out) {
+    throw new UsageError('--out is required.');
+  }
+  if (values.format !== 'folder' && values.format !== 'zip') {
+    throw new UsageError(`--format must be "folder" or "zip", got "${values.format}".`);
+  }
+  const exportMode = values['export-mode'] as ExportMode;
+  if (!EXPORT_MODES.includes(exportMode)) {
+    throw new UsageError(`--export-mode must be one of ${EXPORT_MODES.join(', ')}.`);
+  }
+
+  const scanThresholds: ScannedDetectionThresholds = {
+    minChars: parseInteger(values['min-chars'], 'min-chars', 250, 0),
+    minTextItems: parseInteger(values['min-text-items'], 'min-text-items', 30, 0),
+  };
+  const concurrency = parseInteger(values.concurrency, 'concurrency', 4, 1);
+  const maxPdfParseBytes = parseInteger(values['max-pdf-mb'], 'max-pdf-mb', 200, 1) * 1024 * 1024;
+  const nearDuplicatePct = parseInteger(values['near-duplicate-pct'], 'near-duplicate-pct', 85, 50);
+  if (nearDuplicatePct > 100) {
+    throw new UsageError(`--near-duplicate-pct must be at most 100, got "${nearDuplicatePct}".`);
+  }
+  const estateProfile: EstateProfile = {
+    ...EMPTY_ESTATE_PROFILE,
+    dateOfDeath: values['date-of-death'] ?? '',
+    alternateValuation: values['alternate-valuation'],
+  };
+  if (values['date-of-death'] !== undefined && !getValuationDate(estateProfile)) {
+    throw new UsageError(`--date-of-death must be a date as YYYY-MM-DD, got "${values['date-of-death']}".`);
+  }
+  if (estateProfile.alternateValuation && !estateProfile.dateOfDeath) {
+    throw new UsageError('--alternate-valuation needs --date-of-death.');
+  }
+  const scheduleConfig = await loadRules(values.rules);
+  const reviewOverrides = await loadOverrides(values.overrides);
+  const priorRun = await loadPriorRun(values['previous-manifest']);
+  const compiledConfig = compileScheduleConfig(scheduleConfig);
+  const log = values.quiet ? () => undefined : (message: string) => console.error(message);
+  setPdfWarnings(!values.quiet);
+
+  const found = await collectFiles(inputDir);
+  const sourceByFile = new Map<Blob, string>();
+  const selectedFiles: SelectedFile[] = [];
+  for (const { absolutePath, relativePath } of found) {
+    const blob = await openAsBlob(absolutePath);
+    const file = new File([blob], path.basename(absolutePath), {
+      type: MIME_TYPES[path.extname(absolutePath).toLowerCase()] ?? '',
+    });
+    sourceByFile.set(file, absolutePath);
+    selectedFiles.push({ file, relativePath });
+  }
+  log(`Found ${selectedFiles.length} supported file(s) in ${inputDir}.`);
+
+  const { files, sourcePaths } = await runSortEngine(
+    {
+      files: selectedFiles,
+      config: compiledConfig,
+      reviewOverrides,
+      scanThresholds,
+      concurrency,
+      maxPdfParseBytes,
+      priorRun,
+    },
+    { onLog: log }
+  );
+
+  const reports = buildReports({
+    files,
+    config: scheduleConfig,
+    thresholds: scanThresholds,
+    ocrEnabled: false,
+    maxPdfParseBytes,
+    estateProfile,
+    nearDuplicates: { threshold: nearDuplicatePct / 100, decisions: {} },
+    priorRun,
+  });
+  const entries = buildZipEntries({
+    files,
+    ...reports,
+    sourcePaths,
+    exportMode,
+  });
+
+  const lookupSource = (file: Blob | string) => (typeof file === 'string' ? undefined : sourceByFile.get(file));
+  if (values.format === 'zip') {
+    await writeEntriesToZip(values.out, entries, lookupSource);
+  } else {
+    await writeEntriesToDirectory(values.out, entries, lookupSource);
+  }
+
+  const summary = summarizeFiles(files, scheduleConfig.schedules);
+  console.log(
+    `Sorted ${summary.total} file(s): ${summary.total - summary.duplicates - summary.reviewNeeded} assigned, ` +
+      `${summary.reviewNeeded} review needed, ${summary.duplicates} duplicate(s). Output: ${values.out}`
+  );
+}
+
+main().catch((error: unknown) => {
+  const isParseError = (error as { code?: string } | null)?.code?.startsWith('ERR_PARSE_ARGS') ?? false;
+  if (error instanceof UsageError || isParseError) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  console.error(error);
+  process.exitCode = 1;
+});
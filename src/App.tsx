@@ -1,13 +1,56 @@
-import { useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import './App.css';
-import { classifyDocument, SCORE_FLOOR, type ScannedDetectionThresholds } from './classify';
-import { hashArrayBuffer } from './hash';
-import { extractPdfText, type PdfTextResult } from './pdfText';
+import { buildBinderEntries, DEFAULT_BINDER_OPTIONS, type BinderOptions } from './binder';
+import type { ScannedDetectionThresholds } from './classify';
+import {
+  applyNearDuplicateDecision,
+  applyReviewOverrides,
+  runSortEngine,
+  shouldIncludeFile,
+  type SelectedFile,
+  type SortPhase,
+} from './engine';
+import { fingerprintImage } from './imageFingerprint';
+import {
+  compileLocalModel,
+  getModelSchedules,
+  loadLocalModelSettings,
+  parseGoldenSet,
+  saveLocalModelSettings,
+  setGoldenSet,
+  updateOverrideExamples,
+  type LocalModelSettings,
+} from './localModel';
+import {
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  findNearDuplicates,
+  loadNearDuplicateDecisions,
+  saveNearDuplicateDecisions,
+  type NearDuplicateDecision,
+  type NearDuplicatePair,
+} from './nearDuplicates';
+import { ocrImage, ocrPdf } from './ocr';
+import { buildChangeReport, parsePriorRun, type ChangeKind, type PriorRun } from './priorRun';
+import {
+  assignOutputPaths,
+  buildDuplicatesGroups,
+  buildReports,
+  buildZipEntries,
+  formatTopTerms,
+  summarizeFiles,
+  toManifestFiles,
+  type ExportMode,
+  type ProcessedFile,
+} from './reports';
 import {
   appendRulesAuditEntry,
   compileScheduleConfig,
+  findSchedule,
+  getConfigHash,
   getDefaultConfig,
+  getScheduleLabel,
   getStoredEditorName,
+  isFormEditable,
   loadReviewOverrides,
   loadRulesAuditLog,
   loadStoredScheduleConfig,
@@ -20,46 +63,70 @@ import {
   type ScheduleConfig,
 } from './scheduleConfig';
 import type { ScheduleId } from './schedules';
+import {
+  deleteSession,
+  ensureReadPermission,
+  listSessions,
+  loadSession,
+  pickSourceDirectory,
+  readDirectoryFiles,
+  saveSession,
+  supportsDirectoryHandles,
+  type SortSession,
+  type SortSessionSummary,
+} from './sessions';
+import MatchDetails from './MatchDetails';
 import { normalizeText } from './normalize';
+import ReviewPreview from './ReviewPreview';
+import {
+  ADMIN_SCHEDULE_ID,
+  applyExportExclusions,
+  describeReviewAction,
+  getUndoableAction,
+  loadReviewActions,
+  recordReviewAction,
+  saveReviewActions,
+  undoReviewAction,
+  type ReviewAction,
+  type ReviewActionKind,
+  type ReviewActions,
+  type ReviewState,
+} from './reviewActions';
+import RulesForm from './RulesForm';
+import { applyRulesImpact, previewRulesImpact, type RulesImpact } from './rulesPreview';
+import { suggestRuleChanges, type RuleSuggestion } from './ruleSuggestions';
+import {
+  appendRulesVersion,
+  diffScheduleConfigs,
+  getRulesSnapshot,
+  loadRulesHistory,
+  saveRulesHistory,
+  summarizeRulesDiff,
+  type RulesChangeAction,
+  type RulesHistory,
+} from './rulesHistory';
+import {
+  findAccountsLackingValuationStatement,
+  getValuationCoverage,
+  getValuationDate,
+  loadEstateProfile,
+  saveEstateProfile,
+  type EstateProfile,
+} from './valuation';
+import { createWorkerPool } from './workerPool';
+import {
+  createWorkspace,
+  exportActiveWorkspace,
+  getActiveWorkspace,
+  importWorkspace,
+  loadWorkspaces,
+  parseWorkspaceExport,
+  switchWorkspace,
+  type Workspace,
+} from './workspaces';
 import { buildZip, downloadBlob, type ZipFileInput } from './zipExport';
 
-interface SelectedFile {
-  file: File;
-  relativePath: string;
-}
-
-interface ProcessedFile {
-  file: File;
-  name: string;
-  relativePath: string;
-  size: number;
-  type: string;
-  hash: string;
-  hashPrefix: string;
-  decision: 'duplicate' | 'review' | 'assigned';
-  schedule?: ScheduleId;
-  candidate?: ScheduleId | 'Unknown';
-  reason: string;
-  score: number;
-  outputPath: string;
-  scores: Record<ScheduleId, number>;
-  pdfMetrics?: PdfTextResult;
-  textSample?: string;
-  overrideApplied?: boolean;
-}
-
-interface DuplicateGroup {
-  hash: string;
-  hashPrefix: string;
-  count: number;
-  sourcePaths: string[];
-  keptName: string;
-  duplicateNames: string[];
-}
-
-type ExportMode = 'full' | '706-only' | 'duplicates-only' | 'reports-only';
-
-type ReviewFilter = 'all' | 'scanned' | 'pdf_error' | 'low_confidence';
+type ReviewFilter = 'all' | 'scanned' | 'pdf_error' | 'too_large' | 'conflict' | 'low_confidence';
 
 type Cluster = {
   id: string;
@@ -67,246 +134,29 @@ type Cluster = {
   items: ProcessedFile[];
 };
 
-const ACCEPTED_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.tiff', '.tif'];
+const DEFAULT_MAX_PDF_PARSE_MB = 200;
+const BYTES_PER_MB = 1024 * 1024;
+
+type ActiveSession = Pick<SortSession, 'id' | 'name' | 'createdAt' | 'directoryHandle'>;
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: 'Added',
+  changed: 'Changed',
+  moved: 'Moved',
+  reclassified: 'Reclassified',
+  removed: 'Removed',
+};
+
 const DEFAULT_SCAN_THRESHOLDS: ScannedDetectionThresholds = {
   minChars: 250,
   minTextItems: 30,
 };
 
-function isPdfFile(filename: string): boolean {
-  return filename.toLowerCase().endsWith('.pdf');
-}
-
 function getRelativePath(file: File): string {
   const relativePath = (file as File & { webkitRelativePath?: string }).webkitRelativePath;
   return relativePath && relativePath.length > 0 ? relativePath : file.name;
 }
 
-function getHashPrefix(hash: string): string {
-  return hash.slice(0, 10);
-}
-
-function buildCsv(rows: string[][]): string {
-  return rows
-    .map((row) =>
-      row
-        .map((value) => {
-          const escaped = String(value ?? '').replace(/"/g, '""');
-          return `"${escaped}"`;
-        })
-        .join(',')
-    )
-    .join('\n');
-}
-
-function shouldIncludeFile(filename: string): boolean {
-  const lower = filename.toLowerCase();
-  return ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
-}
-
-function summarizeBySchedule(files: ProcessedFile[], schedules: ScheduleConfig['schedules']): Record<string, number> {
-  const summary: Record<string, number> = {};
-  for (const schedule of schedules) {
-    summary[schedule.id] = 0;
-  }
-  for (const file of files) {
-    if (file.decision === 'assigned' && file.schedule) {
-      summary[file.schedule] = (summary[file.schedule] ?? 0) + 1;
-    }
-  }
-  return summary;
-}
-
-function getScheduleLabel(scheduleId: ScheduleId, schedules: ScheduleConfig['schedules']): string {
-  return schedules.find((schedule) => schedule.id === scheduleId)?.label ?? scheduleId;
-}
-
-function buildBaseOutputPath(file: ProcessedFile): string {
-  if (file.decision === 'duplicate') {
-    return `DUPLICATES/${file.hashPrefix}/${file.name}`;
-  }
-  if (file.decision === 'review') {
-    const candidate = file.candidate ?? 'Unknown';
-    return `706/ReviewNeeded/${candidate}/${file.name}`;
-  }
-  return `706/${file.schedule}/${file.name}`;
-}
-
-function ensureUniqueFilename(name: string, usedNames: Set<string>): string {
-  if (!usedNames.has(name)) {
-    usedNames.add(name);
-    return name;
-  }
-  const dotIndex = name.lastIndexOf('.');
-  const base = dotIndex === -1 ? name : name.slice(0, dotIndex);
-  const ext = dotIndex === -1 ? '' : name.slice(dotIndex);
-  let counter = 1;
-  let candidate = `${base}__dup${counter}${ext}`;
-  while (usedNames.has(candidate)) {
-    counter += 1;
-    candidate = `${base}__dup${counter}${ext}`;
-  }
-  usedNames.add(candidate);
-  return candidate;
-}
-
-function assignOutputPaths(files: ProcessedFile[]): ProcessedFile[] {
-  const usedNamesByFolder = new Map<string, Set<string>>();
-  return files.map((file) => {
-    const basePath = buildBaseOutputPath(file);
-    const segments = basePath.split('/');
-    const filename = segments.pop() ?? file.name;
-    const dir = segments.join('/');
-    const used = usedNamesByFolder.get(dir) ?? new Set<string>();
-    usedNamesByFolder.set(dir, used);
-    const uniqueName = ensureUniqueFilename(filename, used);
-    return {
-      ...file,
-      outputPath: dir.length > 0 ? `${dir}/${uniqueName}` : uniqueName,
-    };
-  });
-}
-
-function buildDuplicatesGroups(files: ProcessedFile[]): DuplicateGroup[] {
-  const groups = new Map<string, ProcessedFile[]>();
-  for (const file of files) {
-    if (!groups.has(file.hash)) {
-      groups.set(file.hash, []);
-    }
-    groups.get(file.hash)?.push(file);
-  }
-
-  const results: DuplicateGroup[] = [];
-  for (const [hash, groupFiles] of groups.entries()) {
-    if (groupFiles.length < 2) continue;
-    const sorted = [...groupFiles].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-    const kept = sorted[0];
-    const duplicateNames = sorted.slice(1).map((item) => item.name);
-    results.push({
-      hash,
-      hashPrefix: kept.hashPrefix,
-      count: sorted.length,
-      sourcePaths: sorted.map((item) => item.relativePath),
-      keptName: kept.name,
-      duplicateNames,
-    });
-  }
-  return results;
-}
-
-function buildZipEntries(options: {
-  files: ProcessedFile[];
-  reportCsv: string;
-  manifestJson: string;
-  duplicatesCsv: string;
-  sourcePaths: Record<string, string[]>;
-  exportMode: ExportMode;
-}): ZipFileInput[] {
-  const { files, reportCsv, manifestJson, duplicatesCsv, sourcePaths, exportMode } = options;
-  const entries: ZipFileInput[] = [];
-
-  const include706 = exportMode === 'full' || exportMode === '706-only';
-  const includeDuplicates = exportMode === 'full' || exportMode === 'duplicates-only';
-  const includeReports = exportMode === 'full' || exportMode === 'reports-only';
-
-  for (const file of files) {
-    if (file.outputPath.startsWith('706/')) {
-      if (include706) {
-        entries.push({ path: file.outputPath, file: file.file });
-      }
-      continue;
-    }
-    if (file.outputPath.startsWith('DUPLICATES/')) {
-      if (includeDuplicates) {
-        entries.push({ path: file.outputPath, file: file.file });
-      }
-    }
-  }
-
-  if (includeReports) {
-    entries.push({ path: 'STATE/report.csv', file: reportCsv });
-    entries.push({ path: 'STATE/manifest.json', file: manifestJson });
-    entries.push({ path: 'STATE/duplicates.csv', file: duplicatesCsv });
-
-    for (const [hashPrefix, paths] of Object.entries(sourcePaths)) {
-      entries.push({
-        path: `STATE/_source_paths/${hashPrefix}.txt`,
-        file: `${paths.join('\n')}\n`,
-      });
-    }
-  }
-
-  return entries;
-}
-
-function summarizeConfigDiff(prev: ScheduleConfig, next: ScheduleConfig): string {
-  const prevKeywords = prev.schedules.reduce(
-    (sum, schedule) => sum + schedule.keywords.length + schedule.smallTerms.length,
-    0
-  );
-  const nextKeywords = next.schedules.reduce(
-    (sum, schedule) => sum + schedule.keywords.length + schedule.smallTerms.length,
-    0
-  );
-  const prevRules = prev.filenameRules.length;
-  const nextRules = next.filenameRules.length;
-  return `Schedules: ${prev.schedules.length}→${next.schedules.length}; keywords: ${prevKeywords}→${nextKeywords}; rules: ${prevRules}→${nextRules}`;
-}
-
-function hashString(value: string): string {
-  let hash = 5381;
-  for (let i = 0; i < value.length; i += 1) {
-    hash = (hash * 33) ^ value.charCodeAt(i);
-  }
-  return (hash >>> 0).toString(16);
-}
-
-async function runWithConcurrency<TItem, TResult>(
-  items: TItem[],
-  concurrency: number,
-  worker: (item: TItem, index: number) => Promise<TResult>,
-  isAborted: () => boolean
-): Promise<TResult[]> {
-  const results: TResult[] = [];
-  let currentIndex = 0;
-  let active = 0;
-
-  return new Promise((resolve) => {
-    const scheduleNext = () => {
-      if (isAborted() && active === 0) {
-        resolve(results);
-        return;
-      }
-
-      while (!isAborted() && active < concurrency && currentIndex < items.length) {
-        const index = currentIndex;
-        const item = items[index];
-        currentIndex += 1;
-        active += 1;
-
-        worker(item, index)
-          .then((result) => {
-            results.push(result);
-          })
-          .finally(() => {
-            active -= 1;
-            if (currentIndex >= items.length && active === 0) {
-              resolve(results);
-            } else {
-              scheduleNext();
-            }
-          });
-      }
-
-      if (currentIndex >= items.length && active === 0) {
-        resolve(results);
-      }
-    };
-
-    scheduleNext();
-  });
-}
-
 function buildReviewClusters(files: ProcessedFile[]): Cluster[] {
   const clusters: Cluster[] = [];
   const maxTokens = 12;
@@ -378,44 +228,103 @@ export default function App() {
   const [progressTotal, setProgressTotal] = useState(0);
   const [progressDone, setProgressDone] = useState(0);
   const [progressCurrentName, setProgressCurrentName] = useState('');
+  const [progressPhase, setProgressPhase] = useState<SortPhase>('hashing');
   const [isCancelled, setIsCancelled] = useState(false);
   const [concurrency, setConcurrency] = useState(2);
   const [scanThresholds, setScanThresholds] = useState<ScannedDetectionThresholds>(DEFAULT_SCAN_THRESHOLDS);
   const [exportMode, setExportMode] = useState<ExportMode>('full');
+  const [binderOptions, setBinderOptions] = useState<BinderOptions>(DEFAULT_BINDER_OPTIONS);
+  const [ocrEnabled, setOcrEnabled] = useState(true);
+  const [maxPdfParseMb, setMaxPdfParseMb] = useState(DEFAULT_MAX_PDF_PARSE_MB);
+  const [nearDuplicatePercent, setNearDuplicatePercent] = useState(DEFAULT_NEAR_DUPLICATE_THRESHOLD * 100);
   const [debugLog, setDebugLog] = useState<string[]>([]);
 
   const [activeTab, setActiveTab] = useState<'sort' | 'rules'>('sort');
   const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
   const [reviewSearch, setReviewSearch] = useState('');
+  const [detailsHash, setDetailsHash] = useState<string | null>(null);
+  const [previewHash, setPreviewHash] = useState<string | null>(null);
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => loadWorkspaces());
+  const [activeWorkspace, setActiveWorkspace] = useState<Workspace>(() => getActiveWorkspace());
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
 
   const [scheduleConfig, setScheduleConfig] = useState<ScheduleConfig>(() =>
     loadStoredScheduleConfig() ?? getDefaultConfig()
   );
   const [rulesText, setRulesText] = useState(() => JSON.stringify(scheduleConfig, null, 2));
   const [rulesErrors, setRulesErrors] = useState<string[]>([]);
+  const [rulesView, setRulesView] = useState<'form' | 'json'>('form');
   const [rulesAuditLog, setRulesAuditLog] = useState<RulesAuditEntry[]>(() => loadRulesAuditLog());
+  const [rulesHistory, setRulesHistory] = useState<RulesHistory>(() => loadRulesHistory());
+  const [compareVersions, setCompareVersions] = useState<{ from: number; to: number } | null>(null);
+  const [rulesPreview, setRulesPreview] = useState<{ config: ScheduleConfig; impact: RulesImpact } | null>(null);
+  const [ruleSuggestions, setRuleSuggestions] = useState<RuleSuggestion[] | null>(null);
+  const [localModel, setLocalModel] = useState<LocalModelSettings>(() => loadLocalModelSettings());
   const [editorName, setEditorName] = useState(() => getStoredEditorName());
 
   const [reviewOverrides, setReviewOverrides] = useState<Record<string, ScheduleId>>(() =>
     loadReviewOverrides()
   );
 
+  const [reviewActions, setReviewActions] = useState<ReviewActions>(() => loadReviewActions());
+  const [selectedReview, setSelectedReview] = useState<string[]>([]);
+  const [bulkScheduleId, setBulkScheduleId] = useState<ScheduleId>('');
+
+  const [nearDuplicateDecisions, setNearDuplicateDecisions] = useState<Record<string, NearDuplicateDecision>>(() =>
+    loadNearDuplicateDecisions()
+  );
+
+  const [estateProfile, setEstateProfile] = useState<EstateProfile>(() => loadEstateProfile());
+  const [priorRun, setPriorRun] = useState<PriorRun | null>(null);
+  const [sessions, setSessions] = useState<SortSessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [sourceDirectoryHandle, setSourceDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  const [currentConfigHash, setCurrentConfigHash] = useState('');
+  const debugLogRef = useRef<string[]>([]);
+
   const [writeBackEnabled, setWriteBackEnabled] = useState(false);
   const [outputDirectoryHandle, setOutputDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
 
   const compiledConfig = useMemo(() => compileScheduleConfig(scheduleConfig), [scheduleConfig]);
 
-  const summary = useMemo(() => {
-    const total = processedFiles.length;
-    const duplicates = processedFiles.filter((file) => file.decision === 'duplicate').length;
-    const reviewNeeded = processedFiles.filter((file) => file.decision === 'review').length;
-    return {
-      total,
-      duplicates,
-      reviewNeeded,
-      bySchedule: summarizeBySchedule(processedFiles, scheduleConfig.schedules),
-    };
-  }, [processedFiles, scheduleConfig.schedules]);
+  const modelBlend = useMemo(
+    () =>
+      localModel.enabled && localModel.model
+        ? { model: compileLocalModel(localModel.model), weight: localModel.weight }
+        : undefined,
+    [localModel]
+  );
+
+  const summary = useMemo(
+    () => summarizeFiles(processedFiles, scheduleConfig.schedules),
+    [processedFiles, scheduleConfig.schedules]
+  );
+
+  const assignedBySchedule = useMemo(
+    () =>
+      scheduleConfig.schedules
+        .map((schedule) => ({
+          schedule,
+          files: processedFiles.filter((file) => file.decision === 'assigned' && file.schedule === schedule.id),
+        }))
+        .filter((group) => group.files.length > 0),
+    [processedFiles, scheduleConfig.schedules]
+  );
+
+  const valuationDate = useMemo(() => getValuationDate(estateProfile), [estateProfile]);
+
+  const valuationFlags = useMemo(() => {
+    if (!valuationDate) return [];
+    return processedFiles.filter(
+      (file) => file.decision !== 'duplicate' && getValuationCoverage(file, valuationDate) === 'outside'
+    );
+  }, [processedFiles, valuationDate]);
+
+  const valuationGaps = useMemo(
+    () => (valuationDate ? findAccountsLackingValuationStatement(processedFiles, valuationDate) : []),
+    [processedFiles, valuationDate]
+  );
 
   const progressPercent = useMemo(() => {
     if (progressTotal === 0) return 0;
@@ -433,35 +342,137 @@ export default function App() {
         : true;
       if (!matchesSearch) return false;
       if (reviewFilter === 'all') return true;
-      if (reviewFilter === 'scanned') return file.reason.startsWith('likely_scanned_pdf');
+      if (reviewFilter === 'scanned') {
+        return file.reason.startsWith('likely_scanned_pdf') || file.textSource === 'ocr';
+      }
       if (reviewFilter === 'pdf_error') return file.reason.startsWith('pdf_parse_error');
-      return file.reason === 'low_confidence' || file.candidate === 'Unknown';
+      if (reviewFilter === 'too_large') return file.reason === 'file_too_large';
+      if (reviewFilter === 'conflict') return file.reason.startsWith('filename_content_conflict');
+      return file.reason.startsWith('low_confidence') || file.candidate === 'Unknown';
     });
   }, [reviewItems, reviewFilter, reviewSearch]);
 
   const reviewClusters = useMemo(() => {
-    const unknownItems = reviewItems.filter((file) => file.candidate === 'Unknown' || file.reason === 'low_confidence');
+    const unknownItems = reviewItems.filter((file) => file.candidate === 'Unknown' || file.reason.startsWith('low_confidence'));
     return buildReviewClusters(unknownItems);
   }, [reviewItems]);
 
+  // Selected files that are still in review; assigned ones drop out of the selection.
+  const selectedReviewItems = useMemo(
+    () => reviewItems.filter((file) => selectedReview.includes(file.hash)),
+    [reviewItems, selectedReview]
+  );
+
+  const undoableReviewAction = getUndoableAction(reviewActions.log);
+
+  const previewIndex = filteredReviewItems.findIndex((file) => file.hash === previewHash);
+
+  const detailsFile = useMemo(
+    () => processedFiles.find((file) => file.hash === detailsHash && file.decision !== 'duplicate'),
+    [processedFiles, detailsHash]
+  );
+
   const duplicateGroups = useMemo(() => buildDuplicatesGroups(processedFiles), [processedFiles]);
 
+  const nearDuplicatePairs = useMemo(
+    () => findNearDuplicates(processedFiles, nearDuplicatePercent / 100),
+    [processedFiles, nearDuplicatePercent]
+  );
+
+  const changeReport = useMemo(
+    () => (priorRun && processedFiles.length > 0 ? buildChangeReport(priorRun, processedFiles) : []),
+    [priorRun, processedFiles]
+  );
+
+  // The form edits the same draft as the JSON view, so it is only available while the JSON
+  // parses into the right shape.
+  const rulesDraft = useMemo(() => {
+    try {
+      const parsed: unknown = JSON.parse(rulesText);
+      return isFormEditable(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }, [rulesText]);
+
+  const rulesDraftIssues = useMemo(() => (rulesDraft ? validateScheduleConfig(rulesDraft).issues : []), [rulesDraft]);
+
+  // Without an explicit choice, compare the latest version with the one before it.
+  const comparedVersions = useMemo(() => {
+    if (compareVersions) return compareVersions;
+    const { versions } = rulesHistory;
+    return versions.length >= 2
+      ? { from: versions[versions.length - 2].version, to: versions[versions.length - 1].version }
+      : null;
+  }, [compareVersions, rulesHistory]);
+
+  const rulesDiff = useMemo(() => {
+    if (!comparedVersions) return [];
+    const before = getRulesSnapshot(rulesHistory, comparedVersions.from);
+    const after = getRulesSnapshot(rulesHistory, comparedVersions.to);
+    return before && after ? diffScheduleConfigs(before, after) : [];
+  }, [comparedVersions, rulesHistory]);
+
+  useEffect(() => {
+    listSessions(activeWorkspace.id)
+      .then(setSessions)
+      .catch((error: unknown) => setStatus(`Saved sessions unavailable: ${String(error)}`));
+  }, [activeWorkspace.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getConfigHash(scheduleConfig).then((hash) => {
+      if (!cancelled) setCurrentConfigHash(hash);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scheduleConfig]);
+
+  // The ref keeps the latest lines for saving a session from inside async handlers.
+  const replaceDebugLog = (lines: string[]) => {
+    debugLogRef.current = lines;
+    setDebugLog(lines);
+  };
+
   const logDebug = (message: string) => {
-    setDebugLog((prev) => [...prev.slice(-199), `${new Date().toLocaleTimeString()} ${message}`]);
+    replaceDebugLog([...debugLogRef.current.slice(-199), `${new Date().toLocaleTimeString()} ${message}`]);
   };
 
-  const handlePickFolder = () => {
-    inputRef.current?.click();
+  const persistSession = async (
+    files: ProcessedFile[],
+    paths: Record<string, string[]>,
+    session: ActiveSession | null = activeSession
+  ) => {
+    if (!session || files.length === 0) return;
+    try {
+      await saveSession({
+        ...session,
+        workspaceId: activeWorkspace.id,
+        updatedAt: new Date().toISOString(),
+        configHash: await getConfigHash(scheduleConfig),
+        scanThresholds,
+        maxPdfParseBytes: maxPdfParseMb * BYTES_PER_MB,
+        ocrEnabled,
+        nearDuplicateThreshold: nearDuplicatePercent / 100,
+        totals: summarizeFiles(files, scheduleConfig.schedules),
+        hasDirectoryHandle: Boolean(session.directoryHandle),
+        files: toManifestFiles(files),
+        sourcePaths: paths,
+        debugLog: debugLogRef.current,
+      });
+      setSessions(await listSessions(activeWorkspace.id));
+    } catch (error) {
+      logDebug(`Could not save session: ${String(error)}`);
+    }
   };
 
-  const handleFileSelection = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(event.target.files ?? []);
-    const filtered = files
-      .filter((file) => shouldIncludeFile(file.name))
-      .map((file) => ({
-        file,
-        relativePath: getRelativePath(file),
-      }));
+  const selectFiles = (filtered: SelectedFile[], directoryHandle: FileSystemDirectoryHandle | null) => {
+    const folderName = filtered[0]?.relativePath.split('/')[0];
+    if (activeSession && activeSession.name !== folderName) {
+      setActiveSession(null);
+    }
+    setSourceDirectoryHandle(directoryHandle);
     setSelectedFiles(filtered);
     setProcessedFiles([]);
     setSourcePaths({});
@@ -472,6 +483,184 @@ export default function App() {
     setStatus(filtered.length > 0 ? `${filtered.length} file(s) ready.` : 'No supported files selected.');
   };
 
+  // Where the File System Access API exists, the folder handle is kept with the session so
+  // it can be reopened on resume; elsewhere the webkitdirectory input is used.
+  const handlePickFolder = async () => {
+    if (!supportsDirectoryHandles()) {
+      inputRef.current?.click();
+      return;
+    }
+    try {
+      const handle = await pickSourceDirectory();
+      setStatus('Reading folder...');
+      selectFiles(await readDirectoryFiles(handle, shouldIncludeFile), handle);
+    } catch (error) {
+      setStatus(`Folder selection cancelled: ${String(error)}`);
+    }
+  };
+
+  const handleFileSelection = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    selectFiles(
+      files
+        .filter((file) => shouldIncludeFile(file.name))
+        .map((file) => ({
+          file,
+          relativePath: getRelativePath(file),
+        })),
+      null
+    );
+  };
+
+  const handleResumeSession = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        setStatus('That session is no longer saved.');
+        setSessions(await listSessions(activeWorkspace.id));
+        return;
+      }
+      setScanThresholds(session.scanThresholds);
+      setMaxPdfParseMb(Math.round(session.maxPdfParseBytes / BYTES_PER_MB));
+      setOcrEnabled(session.ocrEnabled);
+      setNearDuplicatePercent(Math.round(session.nearDuplicateThreshold * 100));
+      setPriorRun({ generatedAt: session.updatedAt, files: session.files });
+      setActiveSession({
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        directoryHandle: session.directoryHandle,
+      });
+      setProcessedFiles([]);
+      replaceDebugLog(session.debugLog);
+
+      const rulesNote =
+        session.configHash === currentConfigHash
+          ? ''
+          : ' The rules have changed since this session; its files keep their earlier decisions.';
+      const restore = `Run Sort to restore its ${session.files.length} result(s).${rulesNote}`;
+      if (session.directoryHandle && (await ensureReadPermission(session.directoryHandle))) {
+        const files = await readDirectoryFiles(session.directoryHandle, shouldIncludeFile);
+        setSourceDirectoryHandle(session.directoryHandle);
+        setSelectedFiles(files);
+        setProgressTotal(files.length);
+        setProgressDone(0);
+        setStatus(`Resumed "${session.name}" with ${files.length} file(s). ${restore}`);
+      } else {
+        setSelectedFiles([]);
+        setStatus(`Resumed "${session.name}". Pick that folder again, then ${restore}`);
+      }
+    } catch (error) {
+      setStatus(`Could not resume session: ${String(error)}`);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (activeSession?.id === id) setActiveSession(null);
+      setSessions(await listSessions(activeWorkspace.id));
+    } catch (error) {
+      setStatus(`Could not delete session: ${String(error)}`);
+    }
+  };
+
+  const handleLoadPriorManifest = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parsePriorRun(JSON.parse(await file.text()));
+      setPriorRun(loaded);
+      setProcessedFiles([]);
+      setStatus(
+        `Loaded previous manifest (${loaded.files.length} file(s)${loaded.generatedAt ? `, ${loaded.generatedAt}` : ''}). Known files will keep their decisions.`
+      );
+    } catch (error) {
+      setStatus(`Could not load manifest: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Everything below the header belongs to one workspace, so switching reloads it all and
+  // drops the current folder and results.
+  const loadWorkspaceState = (workspace: Workspace) => {
+    const config = loadStoredScheduleConfig() ?? getDefaultConfig();
+    setWorkspaces(loadWorkspaces());
+    setActiveWorkspace(workspace);
+    setScheduleConfig(config);
+    setRulesText(JSON.stringify(config, null, 2));
+    setRulesErrors([]);
+    setRulesAuditLog(loadRulesAuditLog());
+    setRulesHistory(loadRulesHistory());
+    setCompareVersions(null);
+    setRulesPreview(null);
+    setRuleSuggestions(null);
+    setLocalModel(loadLocalModelSettings());
+    setReviewOverrides(loadReviewOverrides());
+    setReviewActions(loadReviewActions());
+    setSelectedReview([]);
+    setNearDuplicateDecisions(loadNearDuplicateDecisions());
+    setEstateProfile(loadEstateProfile());
+    setSelectedFiles([]);
+    setProcessedFiles([]);
+    setSourcePaths({});
+    setPriorRun(null);
+    setActiveSession(null);
+    setSourceDirectoryHandle(null);
+    replaceDebugLog([]);
+  };
+
+  const handleSwitchWorkspace = (id: string) => {
+    try {
+      loadWorkspaceState(switchWorkspace(id));
+      setStatus('Workspace switched. Select a folder to begin.');
+    } catch (error) {
+      setStatus(`Could not switch workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleCreateWorkspace = () => {
+    try {
+      const workspace = createWorkspace(newWorkspaceName);
+      setNewWorkspaceName('');
+      loadWorkspaceState(workspace);
+      setStatus(`Created workspace "${workspace.name}" with the built-in rules.`);
+    } catch (error) {
+      setStatus(`Could not create workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleExportWorkspace = async () => {
+    try {
+      const data = await exportActiveWorkspace();
+      const slug = data.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `estate706-workspace-${slug}.json`);
+      setStatus(`Exported workspace "${data.name}" with ${data.sessions.length} session(s).`);
+    } catch (error) {
+      setStatus(`Could not export workspace: ${String(error)}`);
+    }
+  };
+
+  const handleImportWorkspace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const workspace = await importWorkspace(parseWorkspaceExport(JSON.parse(await file.text())));
+      loadWorkspaceState(workspace);
+      setStatus(`Imported workspace "${workspace.name}".`);
+    } catch (error) {
+      setStatus(`Could not import workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleEstateProfileChange = (patch: Partial<EstateProfile>) => {
+    const updated = { ...estateProfile, ...patch };
+    setEstateProfile(updated);
+    saveEstateProfile(updated);
+  };
+
   const handleCancel = () => {
     abortRef.current?.abort();
     setIsCancelled(true);
@@ -490,264 +679,93 @@ export default function App() {
     setIsCancelled(false);
     setProgressTotal(selectedFiles.length);
     setProgressDone(0);
+    setProgressPhase('hashing');
     setProgressCurrentName('');
     setStatus('Processing files...');
-    setDebugLog([]);
-
-    const processed: ProcessedFile[] = [];
-    const seenHashes = new Map<string, ProcessedFile>();
-    const sourcePathsMap: Record<string, string[]> = {};
-
-    const isAborted = () => abortController.signal.aborted;
+    replaceDebugLog([]);
+
+    const folderName = selectedFiles[0].relativePath.split('/')[0];
+    const session: ActiveSession =
+      activeSession && activeSession.name === folderName
+        ? activeSession
+        : {
+            id: crypto.randomUUID(),
+            name: folderName,
+            createdAt: new Date().toISOString(),
+            directoryHandle: sourceDirectoryHandle ?? undefined,
+          };
+    setActiveSession(session);
+
+    const workerPool = createWorkerPool(
+      concurrency,
+      () => new Worker(new URL('./fileWorker.ts', import.meta.url), { type: 'module' })
+    );
 
     try {
-      await runWithConcurrency(
-        selectedFiles,
-        concurrency,
-        async (item, index) => {
-          if (isAborted()) {
-            return undefined;
-          }
-
-          setProgressCurrentName(item.relativePath);
-          logDebug(`Start ${index + 1}/${selectedFiles.length}: ${item.relativePath}`);
-
-          try {
-            const buffer = await item.file.arrayBuffer();
-            const hash = await hashArrayBuffer(buffer);
-            const hashPrefix = getHashPrefix(hash);
-
-            if (!sourcePathsMap[hashPrefix]) {
-              sourcePathsMap[hashPrefix] = [];
-            }
-            sourcePathsMap[hashPrefix].push(item.relativePath);
-
-            if (seenHashes.has(hash)) {
-              const duplicate = seenHashes.get(hash);
-              const duplicateEntry: ProcessedFile = {
-                file: item.file,
-                name: item.file.name,
-                relativePath: item.relativePath,
-                size: item.file.size,
-                type: item.file.type,
-                hash,
-                hashPrefix,
-                decision: 'duplicate',
-                schedule: duplicate?.schedule,
-                candidate: duplicate?.candidate,
-                reason: 'sha256_duplicate',
-                score: duplicate?.score ?? 0,
-                outputPath: '',
-                scores: duplicate?.scores ?? ({} as Record<ScheduleId, number>),
-              };
-              processed.push(duplicateEntry);
-              logDebug(`Duplicate detected for ${item.relativePath}`);
-              return duplicateEntry;
-            }
-
-            const overrideSchedule = reviewOverrides[hash];
-            if (overrideSchedule) {
-              const scores = {} as Record<ScheduleId, number>;
-              for (const schedule of compiledConfig.schedules) {
-                scores[schedule.id] = schedule.id === overrideSchedule ? SCORE_FLOOR : 0;
-              }
-              const overrideEntry: ProcessedFile = {
-                file: item.file,
-                name: item.file.name,
-                relativePath: item.relativePath,
-                size: item.file.size,
-                type: item.file.type,
-                hash,
-                hashPrefix,
-                decision: 'assigned',
-                schedule: overrideSchedule,
-                reason: 'review_override',
-                score: SCORE_FLOOR,
-                outputPath: '',
-                scores,
-                overrideApplied: true,
-              };
-              processed.push(overrideEntry);
-              seenHashes.set(hash, overrideEntry);
-              logDebug(`Applied override for ${item.relativePath} → ${overrideSchedule}`);
-              return overrideEntry;
-            }
-
-            let text = '';
-            let pdfMetrics: PdfTextResult | undefined;
-            const pdf = isPdfFile(item.file.name);
-            if (pdf) {
-              try {
-                pdfMetrics = await extractPdfText(buffer);
-                text = pdfMetrics.text;
-              } catch (error) {
-                const errorEntry: ProcessedFile = {
-                  file: item.file,
-                  name: item.file.name,
-                  relativePath: item.relativePath,
-                  size: item.file.size,
-                  type: item.file.type,
-                  hash,
-                  hashPrefix,
-                  decision: 'review',
-                  candidate: 'Unknown',
-                  reason: `pdf_parse_error: ${String(error)}`,
-                  score: 0,
-                  outputPath: '',
-                  scores: {} as Record<ScheduleId, number>,
-                };
-                processed.push(errorEntry);
-                seenHashes.set(hash, errorEntry);
-                logDebug(`PDF parse error for ${item.relativePath}: ${String(error)}`);
-                return errorEntry;
-              }
-            }
-
-            const classification = classifyDocument({
-              filename: item.file.name,
-              text,
-              isPdf: pdf,
-              config: compiledConfig,
-              pdfMetrics,
-              scannedThresholds: scanThresholds,
-            });
-
-            const entry: ProcessedFile = {
-              file: item.file,
-              name: item.file.name,
-              relativePath: item.relativePath,
-              size: item.file.size,
-              type: item.file.type,
-              hash,
-              hashPrefix,
-              decision: classification.decision,
-              schedule: classification.schedule,
-              candidate: classification.candidate,
-              reason: classification.reason,
-              score: classification.score,
-              outputPath: '',
-              scores: classification.scores,
-              pdfMetrics,
-              textSample: classification.decision === 'review' ? text.slice(0, 200) : undefined,
-            };
-
-            processed.push(entry);
-            seenHashes.set(hash, entry);
-            logDebug(`Finished ${item.relativePath} (${classification.reason})`);
-            return entry;
-          } catch (error) {
-            const fallbackHash = `error-${index}`;
-            const fallbackPrefix = getHashPrefix(fallbackHash);
-            const errorEntry: ProcessedFile = {
-              file: item.file,
-              name: item.file.name,
-              relativePath: item.relativePath,
-              size: item.file.size,
-              type: item.file.type,
-              hash: fallbackHash,
-              hashPrefix: fallbackPrefix,
-              decision: 'review',
-              candidate: 'Unknown',
-              reason: `processing_error: ${String(error)}`,
-              score: 0,
-              outputPath: '',
-              scores: {} as Record<ScheduleId, number>,
-            };
-            processed.push(errorEntry);
-            logDebug(`Processing error for ${item.relativePath}: ${String(error)}`);
-            return errorEntry;
-          } finally {
-            setProgressDone((prev) => prev + 1);
-          }
+      const result = await runSortEngine(
+        {
+          files: selectedFiles,
+          config: compiledConfig,
+          reviewOverrides,
+          scanThresholds,
+          concurrency,
+          maxPdfParseBytes: maxPdfParseMb * BYTES_PER_MB,
+          processor: workerPool,
+          runOcr: ocrEnabled ? (file, isPdf) => (isPdf ? ocrPdf(file) : ocrImage(file)) : undefined,
+          fingerprintImage,
+          priorRun: priorRun ?? undefined,
+          nearDuplicates: { threshold: nearDuplicatePercent / 100, decisions: nearDuplicateDecisions },
+          model: modelBlend,
         },
-        isAborted
+        {
+          signal: abortController.signal,
+          onLog: logDebug,
+          onProgress: (progress) => {
+            setProgressPhase(progress.phase);
+            setProgressDone(progress.done);
+            if (progress.currentPath) {
+              setProgressCurrentName(progress.currentPath);
+            }
+          },
+        }
       );
 
-      const withPaths = assignOutputPaths(processed);
-      setProcessedFiles(withPaths);
-      setSourcePaths(sourcePathsMap);
+      const files = applyExportExclusions(result.files, reviewActions.excluded);
+      setProcessedFiles(files);
+      setSourcePaths(result.sourcePaths);
+      await persistSession(files, result.sourcePaths, session);
 
-      const completedCount = processed.length;
-      if (isAborted()) {
-        setStatus(`Cancelled at ${completedCount}/${selectedFiles.length}.`);
+      if (result.aborted) {
+        setStatus(`Cancelled at ${result.files.length}/${selectedFiles.length}.`);
       } else {
         setStatus('Sorting complete.');
       }
     } catch (error) {
       setStatus(`Processing failed: ${String(error)}`);
     } finally {
+      workerPool.terminate();
       setIsProcessing(false);
       setProgressCurrentName('');
       abortRef.current = null;
     }
   };
 
-  const buildReports = () => {
-    const rows = [
-      [
-        'name',
-        'relative_path',
-        'output_path',
-        'decision',
-        'schedule',
-        'candidate',
-        'reason',
-        'score',
-        'hash',
-      ],
-    ];
-
-    for (const file of processedFiles) {
-      rows.push([
-        file.name,
-        file.relativePath,
-        file.outputPath,
-        file.decision,
-        file.schedule ?? '',
-        file.candidate ?? '',
-        file.reason,
-        String(file.score),
-        file.hash,
-      ]);
-    }
-
-    const reportCsv = buildCsv(rows);
-
-    const duplicateGroups = buildDuplicatesGroups(processedFiles);
-    const duplicateRows = [
-      ['hashPrefix', 'count', 'source_relative_paths', 'kept_name', 'duplicate_names'],
-      ...duplicateGroups.map((group) => [
-        group.hashPrefix,
-        String(group.count),
-        group.sourcePaths.join(' | '),
-        group.keptName,
-        group.duplicateNames.join(' | '),
-      ]),
-    ];
-    const duplicatesCsv = buildCsv(duplicateRows);
-
-    const manifestFiles = processedFiles.map(({ file, ...rest }) => rest);
-    const manifestJson = JSON.stringify(
-      {
-        generatedAt: new Date().toISOString(),
-        totals: summary,
-        config: scheduleConfig,
-        thresholds: scanThresholds,
-        files: manifestFiles,
-      },
-      null,
-      2
-    );
-    return { reportCsv, manifestJson, duplicatesCsv };
-  };
-
   const buildEntries = () => {
-    const { reportCsv, manifestJson, duplicatesCsv } = buildReports();
+    const reports = buildReports({
+      files: processedFiles,
+      config: scheduleConfig,
+      thresholds: scanThresholds,
+      ocrEnabled,
+      maxPdfParseBytes: maxPdfParseMb * BYTES_PER_MB,
+      estateProfile,
+      nearDuplicates: { threshold: nearDuplicatePercent / 100, decisions: nearDuplicateDecisions },
+      priorRun: priorRun ?? undefined,
+      localModel:
+        modelBlend && localModel.model ? { trainedAt: localModel.model.trainedAt, weight: modelBlend.weight } : undefined,
+    });
     return buildZipEntries({
       files: processedFiles,
-      reportCsv,
-      manifestJson,
-      duplicatesCsv,
+      ...reports,
       sourcePaths,
       exportMode,
     });
@@ -773,6 +791,50 @@ export default function App() {
     setStatus('ZIP ready.');
   };
 
+  const buildBinder = async (): Promise<ZipFileInput[] | null> => {
+    if (processedFiles.length === 0) {
+      setStatus('Run the sort before building a binder.');
+      return null;
+    }
+    setStatus('Building PDF binder...');
+    const entries = await buildBinderEntries(processedFiles, scheduleConfig.schedules, binderOptions);
+    if (entries.length === 0) {
+      setStatus('No assigned documents to bind.');
+      return null;
+    }
+    return entries;
+  };
+
+  const handleDownloadBinder = async () => {
+    try {
+      const entries = await buildBinder();
+      if (!entries) return;
+      if (entries.length === 1) {
+        downloadBlob(entries[0].file as Blob, entries[0].path.split('/').pop() ?? 'binder.pdf');
+      } else {
+        downloadBlob(await buildZip(entries), 'estate-706-binders.zip');
+      }
+      setStatus('PDF binder ready.');
+    } catch (error) {
+      setStatus(`Binder failed: ${String(error)}`);
+    }
+  };
+
+  const handleWriteBinder = async () => {
+    if (!outputDirectoryHandle) {
+      setStatus('Choose an output folder first.');
+      return;
+    }
+    try {
+      const entries = await buildBinder();
+      if (!entries) return;
+      await writeEntriesToFolder(outputDirectoryHandle, entries, () => false);
+      setStatus('PDF binder written to BINDERS/.');
+    } catch (error) {
+      setStatus(`Binder failed: ${String(error)}`);
+    }
+  };
+
   const handleWriteOutput = async () => {
     if (processedFiles.length === 0) {
       setStatus('Run the sort before writing output.');
@@ -804,47 +866,204 @@ export default function App() {
     }
   };
 
-  const handleSaveRules = () => {
-    try {
-      const parsed = JSON.parse(rulesText) as ScheduleConfig;
-      const { config, errors } = validateScheduleConfig(parsed);
-      if (!config || errors.length > 0) {
-        setRulesErrors(errors.length > 0 ? errors : ['Invalid JSON structure.']);
-        return;
-      }
+  // Every change to the active rules goes through here: it stores the new config, keeps a
+  // snapshot of it as the next history version and adds the matching audit entry.
+  const applyRulesChange = async (
+    config: ScheduleConfig,
+    action: Exclude<RulesChangeAction, 'baseline'>,
+    restoredFrom?: number
+  ) => {
+    const prevConfig = scheduleConfig;
+    const [beforeHash, afterHash] = await Promise.all([getConfigHash(prevConfig), getConfigHash(config)]);
+    const timestamp = new Date().toISOString();
+    const history = appendRulesVersion(
+      rulesHistory,
+      { savedAt: timestamp, editorName: editorName || undefined, action, hash: afterHash, restoredFrom, config },
+      { hash: beforeHash, config: prevConfig }
+    );
+    const version = history.versions[history.versions.length - 1].version;
+    saveRulesHistory(history);
+    setRulesHistory(history);
 
-      const prevConfig = scheduleConfig;
-      const prevHash = hashString(JSON.stringify(prevConfig));
-      const nextHash = hashString(JSON.stringify(config));
+    if (action === 'reset') {
+      resetStoredScheduleConfig();
+    } else {
       saveScheduleConfig(config);
-      setScheduleConfig(config);
-      setRulesErrors([]);
-
-      const summary = summarizeConfigDiff(prevConfig, config);
-      const entry: RulesAuditEntry = {
-        timestamp: new Date().toISOString(),
-        editorName: editorName || undefined,
-        summary,
-        beforeHash: prevHash,
-        afterHash: nextHash,
-      };
-      appendRulesAuditEntry(entry);
-      setRulesAuditLog((prev) => [entry, ...prev]);
-      setStatus('Rules saved to local storage.');
+    }
+    setScheduleConfig(config);
+    setRulesText(JSON.stringify(config, null, 2));
+    setProcessedFiles((prev) => assignOutputPaths(prev, config.schedules));
+    setRulesErrors([]);
+    // Suggestions are worked out against the saved rules, so any change makes them stale.
+    setRuleSuggestions(null);
+
+    const diffSummary = summarizeRulesDiff(diffScheduleConfigs(prevConfig, config));
+    const entry: RulesAuditEntry = {
+      timestamp,
+      editorName: editorName || undefined,
+      summary:
+        action === 'restore'
+          ? `Restored version ${restoredFrom}: ${diffSummary}`
+          : action === 'reset'
+            ? `Reset to defaults: ${diffSummary}`
+            : diffSummary,
+      beforeHash,
+      afterHash,
+      action,
+      version,
+    };
+    appendRulesAuditEntry(entry);
+    setRulesAuditLog((prev) => [entry, ...prev]);
+  };
+
+  // The draft in the editor, or null after showing why it cannot be used.
+  const parseRulesText = (): ScheduleConfig | null => {
+    let parsed: ScheduleConfig;
+    try {
+      parsed = JSON.parse(rulesText) as ScheduleConfig;
     } catch (error) {
       setRulesErrors([`Invalid JSON: ${String(error)}`]);
+      return null;
+    }
+    const { config, errors } = validateScheduleConfig(parsed);
+    if (!config || errors.length > 0) {
+      setRulesErrors(errors.length > 0 ? errors : ['Invalid JSON structure.']);
+      return null;
     }
+    return config;
+  };
+
+  const handleRulesTextChange = (value: string) => {
+    setRulesText(value);
+    setRulesPreview(null);
+  };
+
+  const handleRulesFormChange = (config: ScheduleConfig) => {
+    handleRulesTextChange(JSON.stringify(config, null, 2));
+    setRulesErrors([]);
+  };
+
+  const handleSaveRules = async () => {
+    const config = parseRulesText();
+    if (!config) return;
+    setRulesPreview(null);
+    await applyRulesChange(config, 'save');
+    setStatus('Rules saved to local storage.');
   };
 
-  const handleResetRules = () => {
-    const defaults = getDefaultConfig();
-    resetStoredScheduleConfig();
-    setScheduleConfig(defaults);
-    setRulesText(JSON.stringify(defaults, null, 2));
+  const handlePreviewRules = () => {
+    const config = parseRulesText();
+    if (!config) return;
     setRulesErrors([]);
+    const impact = previewRulesImpact(processedFiles, compileScheduleConfig(config), scanThresholds, modelBlend);
+    setRulesPreview({ config, impact });
+    setStatus(`Draft rules would change ${impact.changed.length} file(s).`);
+  };
+
+  // Approving saves the draft and applies the previewed decisions to the current results.
+  const handleApproveRulesPreview = async () => {
+    if (!rulesPreview) return;
+    const files = assignOutputPaths(
+      applyRulesImpact(processedFiles, rulesPreview.impact),
+      rulesPreview.config.schedules
+    );
+    setProcessedFiles(files);
+    setRulesPreview(null);
+    await applyRulesChange(rulesPreview.config, 'save');
+    void persistSession(files, sourcePaths);
+    setStatus(`Rules saved; ${rulesPreview.impact.changed.length} file(s) re-sorted.`);
+  };
+
+  const handleSuggestRules = () => {
+    const suggestions = suggestRuleChanges(processedFiles, scheduleConfig, scanThresholds, modelBlend);
+    setRuleSuggestions(suggestions);
+    setStatus(`${suggestions.length} rule suggestion(s) from reviewer overrides.`);
+  };
+
+  // Applying a suggestion saves it like any other rules change and re-sorts the files it moves.
+  const handleApplyRuleSuggestion = async (suggestion: RuleSuggestion) => {
+    const files = assignOutputPaths(
+      applyRulesImpact(processedFiles, suggestion.effect.impact),
+      suggestion.config.schedules
+    );
+    setProcessedFiles(files);
+    setRulesPreview(null);
+    await applyRulesChange(suggestion.config, 'save');
+    void persistSession(files, sourcePaths);
+    setStatus(`Rules saved; ${suggestion.effect.impact.changed.length} file(s) re-sorted.`);
+  };
+
+  // Returns false, after saying so, when the settings could not be stored (a full localStorage).
+  const handleLocalModelChange = (patch: Partial<LocalModelSettings>): boolean => {
+    const updated = { ...localModel, ...patch };
+    setLocalModel(updated);
+    try {
+      saveLocalModelSettings(updated);
+      return true;
+    } catch (error) {
+      setStatus(`Could not save the local model: ${String(error)}. It is used until the page is reloaded.`);
+      return false;
+    }
+  };
+
+  const handleLoadGoldenSet = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const goldenSet = parseGoldenSet(JSON.parse(await file.text()));
+      const model = setGoldenSet(localModel.model, goldenSet, new Date().toISOString());
+      if (handleLocalModelChange({ model })) {
+        setStatus(`Model trained on ${model.golden.length} golden-set document(s). Run the sort again to use it.`);
+      }
+    } catch (error) {
+      setStatus(`Could not load golden set: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Learns the overrides applied to the current results and keeps those from earlier sessions.
+  const handleTrainLocalModel = () => {
+    const model = updateOverrideExamples(localModel.model, processedFiles, reviewOverrides, new Date().toISOString());
+    const overrides = Object.keys(model.overrides).length;
+    if (model.golden.length === 0 && overrides === 0) {
+      setStatus('Nothing to train on: load a golden set, or override files in the current results.');
+      return;
+    }
+    if (handleLocalModelChange({ model })) {
+      setStatus(
+        `Model trained on ${model.golden.length} golden-set and ${overrides} override document(s). ` +
+          'Run the sort again to use it.'
+      );
+    }
+  };
+
+  const handleDiscardLocalModel = () => {
+    handleLocalModelChange({ model: null, enabled: false });
+    setStatus('Local model discarded.');
+  };
+
+  const handleRejectRulesPreview = () => {
+    setRulesText(JSON.stringify(scheduleConfig, null, 2));
+    setRulesErrors([]);
+    setRulesPreview(null);
+    setStatus('Draft rules discarded.');
+  };
+
+  const handleResetRules = async () => {
+    await applyRulesChange(getDefaultConfig(), 'reset');
     setStatus('Rules reset to defaults.');
   };
 
+  const handleRestoreRulesVersion = async (version: number) => {
+    const snapshot = getRulesSnapshot(rulesHistory, version);
+    if (!snapshot) {
+      setStatus(`Rules version ${version} has no snapshot.`);
+      return;
+    }
+    await applyRulesChange(snapshot, 'restore', version);
+    setStatus(`Rules restored from version ${version}.`);
+  };
+
   const handleExportRules = () => {
     const blob = new Blob([JSON.stringify(scheduleConfig, null, 2)], { type: 'application/json' });
     downloadBlob(blob, 'estate-706-rules.json');
@@ -856,6 +1075,7 @@ export default function App() {
     const text = await file.text();
     setRulesText(text);
     setRulesErrors([]);
+    setRulesPreview(null);
   };
 
   const handleEditorNameChange = (value: string) => {
@@ -863,34 +1083,101 @@ export default function App() {
     setStoredEditorName(value);
   };
 
+  // Saves overrides and exclusions after a review action or its undo, and re-applies them to
+  // the files the action touched.
+  const commitReviewState = (state: ReviewState, log: ReviewAction[], hashes: string[]) => {
+    const changes: Record<string, ScheduleId | 'clear'> = {};
+    for (const hash of hashes) {
+      if (state.overrides[hash] !== reviewOverrides[hash]) changes[hash] = state.overrides[hash] ?? 'clear';
+    }
+    const actions = { log, excluded: state.excluded };
+    setReviewOverrides(state.overrides);
+    saveReviewOverrides(state.overrides);
+    setReviewActions(actions);
+    saveReviewActions(actions);
+    const files = applyExportExclusions(
+      applyReviewOverrides(processedFiles, changes, compiledConfig),
+      state.excluded
+    );
+    setProcessedFiles(files);
+    void persistSession(files, sourcePaths);
+    // A trained model follows the overrides, so a changed or undone one stops voting. Only the
+    // examples for the files whose override changed are updated.
+    const changed = Object.keys(changes);
+    if (localModel.model && changed.length > 0) {
+      handleLocalModelChange({
+        model: updateOverrideExamples(localModel.model, files, state.overrides, new Date().toISOString(), changed),
+      });
+    }
+  };
+
+  const handleReviewAction = (kind: ReviewActionKind, hashes: string[], scheduleId?: ScheduleId) => {
+    if (hashes.length === 0) return;
+    if (kind === 'assign' && !findSchedule(scheduleId, scheduleConfig.schedules)) {
+      setStatus(`Schedule "${scheduleId ?? ''}" is not in the current rules.`);
+      return;
+    }
+    const { state, log } = recordReviewAction(
+      { overrides: reviewOverrides, excluded: reviewActions.excluded },
+      reviewActions.log,
+      { kind, scheduleId, hashes, at: new Date().toISOString(), reviewerName: editorName || undefined }
+    );
+    commitReviewState(state, log, hashes);
+    setStatus(`${describeReviewAction(log[log.length - 1], scheduleConfig.schedules)}.`);
+  };
+
+  const handleUndoReviewAction = () => {
+    if (!undoableReviewAction) return;
+    const { state, log } = undoReviewAction(
+      { overrides: reviewOverrides, excluded: reviewActions.excluded },
+      reviewActions.log,
+      new Date().toISOString(),
+      editorName || undefined
+    );
+    commitReviewState(state, log, Object.keys(undoableReviewAction.before));
+    setStatus(`Undone: ${describeReviewAction(undoableReviewAction, scheduleConfig.schedules)}.`);
+  };
+
   const handleOverrideChange = (hash: string, scheduleId: ScheduleId | 'clear') => {
-    const updated = { ...reviewOverrides };
     if (scheduleId === 'clear') {
-      delete updated[hash];
+      handleReviewAction('clear', [hash]);
     } else {
-      updated[hash] = scheduleId;
+      handleReviewAction('assign', [hash], scheduleId);
     }
-    setReviewOverrides(updated);
-    saveReviewOverrides(updated);
-
-    const recalculated = assignOutputPaths(
-      processedFiles.map((file) => {
-        if (file.hash !== hash) return file;
-        if (scheduleId === 'clear') {
-          return { ...file, overrideApplied: false };
-        }
-        return {
-          ...file,
-          decision: 'assigned',
-          schedule: scheduleId,
-          candidate: undefined,
-          reason: 'review_override',
-          score: SCORE_FLOOR,
-          overrideApplied: true,
-        };
-      })
+  };
+
+  const toggleReviewSelection = (hashes: string[], selected: boolean) => {
+    setSelectedReview((current) =>
+      selected ? Array.from(new Set([...current, ...hashes])) : current.filter((hash) => !hashes.includes(hash))
     );
-    setProcessedFiles(recalculated);
+  };
+
+  const handlePreviewMove = (offset: 1 | -1) => {
+    const next = filteredReviewItems[previewIndex + offset];
+    if (next) setPreviewHash(next.hash);
+  };
+
+  // The assigned file leaves the review list, so the preview moves on to the one after it.
+  const handlePreviewAssign = (scheduleId: ScheduleId) => {
+    const current = filteredReviewItems[previewIndex];
+    if (!current) return;
+    const next = filteredReviewItems[previewIndex + 1] ?? filteredReviewItems[previewIndex - 1];
+    handleOverrideChange(current.hash, scheduleId);
+    setPreviewHash(next?.hash ?? null);
+  };
+
+  const handleNearDuplicateDecision = (pair: NearDuplicatePair, decision: NearDuplicateDecision | 'clear') => {
+    const updated = { ...nearDuplicateDecisions };
+    if (decision === 'clear') {
+      delete updated[pair.key];
+    } else {
+      updated[pair.key] = decision;
+    }
+    setNearDuplicateDecisions(updated);
+    saveNearDuplicateDecisions(updated);
+    const files = applyNearDuplicateDecision(processedFiles, pair, decision, compiledConfig);
+    setProcessedFiles(files);
+    void persistSession(files, sourcePaths);
   };
 
   const totalFilesLabel = `${progressDone}/${progressTotal}`;
@@ -901,6 +1188,39 @@ export default function App() {
       <header>
         <h1>706 Schedule Sorter</h1>
         <p>Runs entirely in your browser. No uploads. No analytics.</p>
+        <div className="workspace-switcher">
+          <label>
+            Estate workspace
+            <select
+              value={activeWorkspace.id}
+              onChange={(event) => handleSwitchWorkspace(event.target.value)}
+              disabled={isProcessing}
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <input
+            type="text"
+            value={newWorkspaceName}
+            placeholder="New estate name"
+            onChange={(event) => setNewWorkspaceName(event.target.value)}
+            disabled={isProcessing}
+          />
+          <button type="button" onClick={handleCreateWorkspace} disabled={isProcessing || !newWorkspaceName.trim()}>
+            New Workspace
+          </button>
+          <button type="button" onClick={handleExportWorkspace} disabled={isProcessing}>
+            Export Workspace
+          </button>
+          <label className="import">
+            Import Workspace
+            <input type="file" accept="application/json" onChange={handleImportWorkspace} disabled={isProcessing} />
+          </label>
+        </div>
       </header>
 
       <nav className="tabs">
@@ -922,6 +1242,91 @@ export default function App() {
 
       {activeTab === 'sort' && (
         <>
+          <section className="estate-profile">
+            <h2>Estate Profile</h2>
+            <div className="export-grid">
+              <label>
+                Decedent name
+                <input
+                  type="text"
+                  value={estateProfile.decedentName}
+                  onChange={(event) => handleEstateProfileChange({ decedentName: event.target.value })}
+                />
+              </label>
+              <label>
+                Date of death
+                <input
+                  type="date"
+                  value={estateProfile.dateOfDeath}
+                  onChange={(event) => handleEstateProfileChange({ dateOfDeath: event.target.value })}
+                />
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={estateProfile.alternateValuation}
+                  onChange={(event) => handleEstateProfileChange({ alternateValuation: event.target.checked })}
+                />
+                Alternate valuation election (six months after death)
+              </label>
+            </div>
+            <p className="write-back-note">
+              Valuation date: {valuationDate ?? 'enter the date of death to check statement periods'}
+            </p>
+          </section>
+
+          {sessions.length > 0 && (
+            <section className="sessions">
+              <h2>Saved Sessions</h2>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Folder</th>
+                    <th>Last saved</th>
+                    <th>Files</th>
+                    <th>Rules</th>
+                    <th>Thresholds</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => (
+                    <tr key={session.id} className={session.id === activeSession?.id ? 'active' : undefined}>
+                      <td>{session.name}</td>
+                      <td>{new Date(session.updatedAt).toLocaleString()}</td>
+                      <td>
+                        {session.totals.total} ({session.totals.reviewNeeded} to review, {session.totals.duplicates}{' '}
+                        duplicate)
+                      </td>
+                      <td title={session.configHash}>
+                        {session.configHash.slice(0, 10)}
+                        {currentConfigHash && session.configHash !== currentConfigHash ? ' (changed since)' : ''}
+                      </td>
+                      <td>
+                        {session.scanThresholds.minChars} chars / {session.scanThresholds.minTextItems} items, max{' '}
+                        {Math.round(session.maxPdfParseBytes / BYTES_PER_MB)} MB, OCR {session.ocrEnabled ? 'on' : 'off'},
+                        near-duplicate {Math.round(session.nearDuplicateThreshold * 100)}%
+                      </td>
+                      <td className="session-actions">
+                        <button type="button" onClick={() => handleResumeSession(session.id)} disabled={isProcessing}>
+                          Resume
+                        </button>
+                        <button
+                          type="button"
+                          className="danger"
+                          onClick={() => handleDeleteSession(session.id)}
+                          disabled={isProcessing}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
           <section className="controls">
             <input
               ref={inputRef}
@@ -935,12 +1340,36 @@ export default function App() {
             <button type="button" onClick={handlePickFolder} disabled={isProcessing}>
               1. Pick Folder
             </button>
+            <label className="import">
+              {priorRun ? 'Replace Previous Manifest' : 'Load Previous Manifest'}
+              <input
+                type="file"
+                accept="application/json"
+                onChange={handleLoadPriorManifest}
+                disabled={isProcessing}
+              />
+            </label>
+            {priorRun && (
+              <button
+                type="button"
+                onClick={() => {
+                  setPriorRun(null);
+                  setActiveSession(null);
+                }}
+                disabled={isProcessing}
+              >
+                Start From Scratch
+              </button>
+            )}
             <button type="button" onClick={handleRunSort} disabled={isProcessing || selectedFiles.length === 0}>
               2. Run Sort
             </button>
             <button type="button" onClick={handleDownloadZip} disabled={processedFiles.length === 0}>
               3. Download Export
             </button>
+            <button type="button" onClick={handleDownloadBinder} disabled={processedFiles.length === 0 || isProcessing}>
+              Download PDF Binder
+            </button>
             {isProcessing && (
               <button type="button" className="danger" onClick={handleCancel}>
                 Cancel
@@ -956,7 +1385,7 @@ export default function App() {
             <div className="progress-header">
               <div>
                 <strong>
-                  Processing {totalFilesLabel}
+                  {progressPhase === 'hashing' ? 'Hashing' : 'Classifying'} {totalFilesLabel}
                   {cancelLabel}
                 </strong>{' '}
                 ({progressPercent}%)
@@ -984,7 +1413,55 @@ export default function App() {
                 </select>
               </label>
               <label>
-                Concurrency
+                PDF binder
+                <select
+                  value={binderOptions.scope}
+                  onChange={(event) =>
+                    setBinderOptions((prev) => ({ ...prev, scope: event.target.value as BinderOptions['scope'] }))
+                  }
+                >
+                  <option value="per-schedule">One PDF per schedule</option>
+                  <option value="master">One master PDF</option>
+                </select>
+              </label>
+              <label>
+                Binder page stamps
+                <select
+                  value={binderOptions.stamp}
+                  onChange={(event) =>
+                    setBinderOptions((prev) => ({ ...prev, stamp: event.target.value as BinderOptions['stamp'] }))
+                  }
+                >
+                  <option value="none">None</option>
+                  <option value="exhibit">Exhibit numbers</option>
+                  <option value="bates">Bates numbers</option>
+                </select>
+              </label>
+              {binderOptions.stamp === 'bates' && (
+                <>
+                  <label>
+                    Bates prefix
+                    <input
+                      type="text"
+                      value={binderOptions.batesPrefix}
+                      onChange={(event) => setBinderOptions((prev) => ({ ...prev, batesPrefix: event.target.value }))}
+                    />
+                  </label>
+                  <label>
+                    First Bates number
+                    <input
+                      type="number"
+                      min={1}
+                      value={binderOptions.batesStart}
+                      onChange={(event) =>
+                        setBinderOptions((prev) => ({ ...prev, batesStart: Math.max(1, Number(event.target.value)) }))
+                      }
+                    />
+                  </label>
+                </>
+              )}
+              <label>
+                Concurrency (worker threads)
                 <select
                   value={concurrency}
                   onChange={(event) => setConcurrency(Number(event.target.value))}
@@ -1029,6 +1506,37 @@ export default function App() {
                     }
                   />
                 </label>
+                <label>
+                  Max PDF size to parse (MB)
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxPdfParseMb}
+                    onChange={(event) => setMaxPdfParseMb(Math.max(1, Number(event.target.value)))}
+                    disabled={isProcessing}
+                  />
+                </label>
+                <label>
+                  Near-duplicate similarity (%)
+                  <input
+                    type="number"
+                    min={50}
+                    max={100}
+                    value={nearDuplicatePercent}
+                    onChange={(event) =>
+                      setNearDuplicatePercent(Math.min(100, Math.max(50, Number(event.target.value))))
+                    }
+                  />
+                </label>
+                <label className="checkbox">
+                  <input
+                    type="checkbox"
+                    checked={ocrEnabled}
+                    onChange={(event) => setOcrEnabled(event.target.checked)}
+                    disabled={isProcessing}
+                  />
+                  Run offline OCR on scanned PDFs and images
+                </label>
                 <label className="checkbox">
                   <input
                     type="checkbox"
@@ -1046,6 +1554,13 @@ export default function App() {
                   <button type="button" onClick={handleWriteOutput} disabled={!outputDirectoryHandle}>
                     Write Output Folder
                   </button>
+                  <button
+                    type="button"
+                    onClick={handleWriteBinder}
+                    disabled={!outputDirectoryHandle || processedFiles.length === 0}
+                  >
+                    Write PDF Binder
+                  </button>
                   <span className="write-back-note">
                     Output folder: {outputDirectoryHandle ? 'Selected' : 'Not selected'}
                   </span>
@@ -1080,14 +1595,78 @@ export default function App() {
             </div>
           </section>
 
+          {valuationDate && processedFiles.length > 0 && (
+            <section className="valuation">
+              <h2>Valuation Date Check ({valuationDate})</h2>
+              <h3>Statements whose period does not include the valuation date ({valuationFlags.length})</h3>
+              {valuationFlags.length === 0 ? (
+                <p>No statements outside the valuation date.</p>
+              ) : (
+                <div className="table-wrapper">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>File name</th>
+                        <th>Statement periods</th>
+                        <th>Output path</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {valuationFlags.map((file) => (
+                        <tr key={file.relativePath}>
+                          <td>{file.name}</td>
+                          <td>
+                            {file.fields?.statementPeriods
+                              .map(({ value }) => `${value.start} to ${value.end}`)
+                              .join(', ')}
+                          </td>
+                          <td>{file.outputPath}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <h3>Accounts without a valuation-date statement ({valuationGaps.length})</h3>
+              {valuationGaps.length === 0 ? (
+                <p>Every account found has a statement covering the valuation date.</p>
+              ) : (
+                <div className="table-wrapper">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Account</th>
+                        <th>Schedule</th>
+                        <th>Documents</th>
+                        <th>Periods found</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {valuationGaps.map((gap) => (
+                        <tr key={gap.account}>
+                          <td>{gap.account}</td>
+                          <td>{getScheduleLabel(gap.schedule, scheduleConfig.schedules)}</td>
+                          <td>{gap.documents.join(', ')}</td>
+                          <td>{gap.periods.join(', ') || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+
           <section className="review-panel">
             <h2>Review Needed</h2>
             <div className="review-controls">
               <div className="filters">
                 {([
                   ['all', 'All review'],
-                  ['scanned', 'Likely scanned'],
+                  ['scanned', 'Scanned / OCR'],
                   ['pdf_error', 'PDF parse error'],
+                  ['too_large', 'Too large to parse'],
+                  ['conflict', 'Filename vs content'],
                   ['low_confidence', 'Unknown / low confidence'],
                 ] as const).map(([value, label]) => (
                   <button
@@ -1106,7 +1685,89 @@ export default function App() {
                 value={reviewSearch}
                 onChange={(event) => setReviewSearch(event.target.value)}
               />
+              <button
+                type="button"
+                onClick={() => setPreviewHash(filteredReviewItems[0]?.hash ?? null)}
+                disabled={filteredReviewItems.length === 0 || previewIndex >= 0}
+              >
+                Preview and Triage
+              </button>
+              <label>
+                Reviewer name
+                <input
+                  type="text"
+                  value={editorName}
+                  onChange={(event) => handleEditorNameChange(event.target.value)}
+                  placeholder="Recorded with each action"
+                />
+              </label>
             </div>
+            {selectedReviewItems.length > 0 && (
+              <div className="bulk-actions">
+                <strong>{selectedReviewItems.length} selected</strong>
+                <select value={bulkScheduleId} onChange={(event) => setBulkScheduleId(event.target.value)}>
+                  <option value="">Choose a schedule…</option>
+                  {scheduleConfig.schedules.map((schedule) => (
+                    <option key={schedule.id} value={schedule.id}>
+                      {getScheduleLabel(schedule.id, scheduleConfig.schedules)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleReviewAction(
+                      'assign',
+                      selectedReviewItems.map((file) => file.hash),
+                      bulkScheduleId
+                    )
+                  }
+                  disabled={!bulkScheduleId}
+                >
+                  Assign
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleReviewAction(
+                      'assign',
+                      selectedReviewItems.map((file) => file.hash),
+                      ADMIN_SCHEDULE_ID
+                    )
+                  }
+                  disabled={!findSchedule(ADMIN_SCHEDULE_ID, scheduleConfig.schedules)}
+                >
+                  Mark as Admin
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleReviewAction('exclude', selectedReviewItems.map((file) => file.hash))}
+                >
+                  Exclude from export
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleReviewAction('include', selectedReviewItems.map((file) => file.hash))}
+                >
+                  Include in export
+                </button>
+                <button type="button" onClick={() => setSelectedReview([])}>
+                  Clear selection
+                </button>
+              </div>
+            )}
+            {previewIndex >= 0 && (
+              <ReviewPreview
+                key={previewHash}
+                file={filteredReviewItems[previewIndex]}
+                position={previewIndex + 1}
+                total={filteredReviewItems.length}
+                schedules={scheduleConfig.schedules}
+                onAssign={handlePreviewAssign}
+                onMove={handlePreviewMove}
+                onClose={() => setPreviewHash(null)}
+              />
+            )}
             {filteredReviewItems.length === 0 ? (
               <p>No review items for the current filter.</p>
             ) : (
@@ -1114,6 +1775,19 @@ export default function App() {
                 <table>
                   <thead>
                     <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          aria-label="Select all shown"
+                          checked={filteredReviewItems.every((file) => selectedReview.includes(file.hash))}
+                          onChange={(event) =>
+                            toggleReviewSelection(
+                              filteredReviewItems.map((file) => file.hash),
+                              event.target.checked
+                            )
+                          }
+                        />
+                      </th>
                       <th>File name</th>
                       <th>Candidate schedule</th>
                       <th>Reason</th>
@@ -1124,21 +1798,43 @@ export default function App() {
                   </thead>
                   <tbody>
                     {filteredReviewItems.map((file) => (
-                      <tr key={file.relativePath}>
-                        <td>{file.name}</td>
-                        <td>{file.candidate ?? 'Unknown'}</td>
+                      <tr key={file.relativePath} className={file.hash === previewHash ? 'previewing' : undefined}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${file.name}`}
+                            checked={selectedReview.includes(file.hash)}
+                            onChange={(event) => toggleReviewSelection([file.hash], event.target.checked)}
+                          />
+                        </td>
+                        <td>
+                          <button type="button" className="link" onClick={() => setDetailsHash(file.hash)}>
+                            {file.name}
+                          </button>
+                          <button type="button" className="link" onClick={() => setPreviewHash(file.hash)}>
+                            Preview
+                          </button>
+                          {file.excludedFromExport && <span className="badge">Excluded from export</span>}
+                        </td>
+                        <td>
+                          {file.candidate && file.candidate !== 'Unknown'
+                            ? getScheduleLabel(file.candidate, scheduleConfig.schedules)
+                            : 'Unknown'}
+                        </td>
                         <td>{file.reason}</td>
                         <td>{file.score}</td>
                         <td>{file.relativePath}</td>
                         <td>
                           <select
-                            value={reviewOverrides[file.hash] ?? 'none'}
+                            value={
+                              findSchedule(reviewOverrides[file.hash], scheduleConfig.schedules)
+                                ? reviewOverrides[file.hash]
+                                : 'none'
+                            }
                             onChange={(event) =>
                               handleOverrideChange(
                                 file.hash,
-                                event.target.value === 'none'
-                                  ? 'clear'
-                                  : (event.target.value as ScheduleId)
+                                event.target.value === 'none' ? 'clear' : event.target.value
                               )
                             }
                           >
@@ -1169,13 +1865,188 @@ export default function App() {
                         {cluster.tokens.length > 0 ? cluster.tokens.join(', ') : 'No terms'}
                       </div>
                       <div className="cluster-count">{cluster.items.length} file(s)</div>
+                      <div className="cluster-actions">
+                        <select
+                          value=""
+                          aria-label="Assign cluster to schedule"
+                          onChange={(event) =>
+                            handleReviewAction(
+                              'assign',
+                              cluster.items.map((file) => file.hash),
+                              event.target.value
+                            )
+                          }
+                        >
+                          <option value="">Assign cluster to…</option>
+                          {scheduleConfig.schedules.map((schedule) => (
+                            <option key={schedule.id} value={schedule.id}>
+                              {getScheduleLabel(schedule.id, scheduleConfig.schedules)}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleReviewAction(
+                              'assign',
+                              cluster.items.map((file) => file.hash),
+                              ADMIN_SCHEDULE_ID
+                            )
+                          }
+                          disabled={!findSchedule(ADMIN_SCHEDULE_ID, scheduleConfig.schedules)}
+                        >
+                          Mark as Admin
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleReviewAction('exclude', cluster.items.map((file) => file.hash))}
+                        >
+                          Exclude from export
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            toggleReviewSelection(
+                              cluster.items.map((file) => file.hash),
+                              true
+                            )
+                          }
+                        >
+                          Select
+                        </button>
+                      </div>
                     </div>
                   ))}
                 </div>
               )}
             </div>
+
+            <div className="review-actions-log">
+              <h3>Review actions</h3>
+              {reviewActions.log.length === 0 ? (
+                <p>No review actions yet.</p>
+              ) : (
+                <>
+                  <button type="button" onClick={handleUndoReviewAction} disabled={!undoableReviewAction}>
+                    Undo last action
+                  </button>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Time</th>
+                        <th>Reviewer</th>
+                        <th>Action</th>
+                        <th>Undone</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...reviewActions.log].reverse().map((action) => (
+                        <tr key={action.id} className={action.undoneAt ? 'undone' : undefined}>
+                          <td>{new Date(action.at).toLocaleString()}</td>
+                          <td>{action.reviewerName ?? '—'}</td>
+                          <td>{describeReviewAction(action, scheduleConfig.schedules)}</td>
+                          <td>
+                            {action.undoneAt
+                              ? `${new Date(action.undoneAt).toLocaleString()}${action.undoneBy ? ` by ${action.undoneBy}` : ''}`
+                              : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
           </section>
 
+          {assignedBySchedule.length > 0 && (
+            <section className="assigned-files">
+              <h2>Assigned Files</h2>
+              {assignedBySchedule.map(({ schedule, files }) => (
+                <details key={schedule.id}>
+                  <summary>
+                    {getScheduleLabel(schedule.id, scheduleConfig.schedules)} — {files.length} file(s)
+                  </summary>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>File name</th>
+                        <th>Reason</th>
+                        <th>Score</th>
+                        <th>Top terms</th>
+                        <th>Output path</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {files.map((file) => (
+                        <tr key={file.relativePath}>
+                          <td>
+                            <button type="button" className="link" onClick={() => setDetailsHash(file.hash)}>
+                              {file.name}
+                            </button>
+                          </td>
+                          <td>{file.reason}</td>
+                          <td>{file.score}</td>
+                          <td>{formatTopTerms(file)}</td>
+                          <td>{file.outputPath}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              ))}
+            </section>
+          )}
+
+          {detailsFile && (
+            <MatchDetails
+              key={detailsFile.hash}
+              file={detailsFile}
+              schedules={scheduleConfig.schedules}
+              onClose={() => setDetailsHash(null)}
+            />
+          )}
+
+          {priorRun && processedFiles.length > 0 && (
+            <section className="changes">
+              <h2>Changes Since Previous Run</h2>
+              <p>
+                {(Object.keys(CHANGE_LABELS) as ChangeKind[])
+                  .map(
+                    (kind) =>
+                      `${CHANGE_LABELS[kind]}: ${changeReport.filter((entry) => entry.change === kind).length}`
+                  )
+                  .join(' · ')}
+              </p>
+              {changeReport.length === 0 ? (
+                <p>No changes since {priorRun.generatedAt || 'the previous run'}.</p>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Change</th>
+                      <th>File</th>
+                      <th>Before</th>
+                      <th>Now</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changeReport.map((entry) => (
+                      <tr key={`${entry.change}:${entry.hash}:${entry.relativePath || entry.previousRelativePath}`}>
+                        <td>{CHANGE_LABELS[entry.change]}</td>
+                        <td>{entry.relativePath || entry.previousRelativePath}</td>
+                        <td>
+                          {entry.change === 'moved' ? entry.previousRelativePath : entry.previousOutputPath || '—'}
+                        </td>
+                        <td>{entry.change === 'moved' ? entry.relativePath : entry.outputPath || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          )}
+
           <section className="duplicates">
             <h2>Duplicates</h2>
             {duplicateGroups.length === 0 ? (
@@ -1199,6 +2070,53 @@ export default function App() {
                 ))}
               </div>
             )}
+            <h3>Probable duplicates</h3>
+            {nearDuplicatePairs.length === 0 ? (
+              <p>No probable duplicates at {nearDuplicatePercent}% similarity.</p>
+            ) : (
+              <div className="duplicate-list">
+                {nearDuplicatePairs.map((pair) => {
+                  const decision = nearDuplicateDecisions[pair.key];
+                  return (
+                    <div key={pair.key} className="near-duplicate">
+                      <div>
+                        <strong>{Math.round(pair.similarity * 100)}%</strong> {pair.kind} match —{' '}
+                        {decision ? decision : 'probable duplicate'}
+                      </div>
+                      <div className="duplicate-details">
+                        <div>
+                          <strong>Kept:</strong> {pair.kept.relativePath}
+                        </div>
+                        <div>
+                          <strong>Duplicate:</strong> {pair.duplicate.relativePath}
+                        </div>
+                      </div>
+                      <div className="near-duplicate-actions">
+                        <button
+                          type="button"
+                          onClick={() => handleNearDuplicateDecision(pair, 'confirmed')}
+                          disabled={decision === 'confirmed'}
+                        >
+                          Confirm
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleNearDuplicateDecision(pair, 'rejected')}
+                          disabled={decision === 'rejected'}
+                        >
+                          Reject
+                        </button>
+                        {decision && (
+                          <button type="button" onClick={() => handleNearDuplicateDecision(pair, 'clear')}>
+                            Undo
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </section>
 
           <section className="file-list">
@@ -1226,7 +2144,11 @@ export default function App() {
       {activeTab === 'rules' && (
         <section className="rules">
           <h2>Rules Editor</h2>
-          <p>Edit the schedules and filename rules JSON. Saved rules are stored locally in this browser.</p>
+          <p>
+            Edit the schedules and filename rules. Schedules can be added, removed or split; each one's optional
+            folder names its output folder and their order sets the display order. Saved rules are stored locally in
+            this browser.
+          </p>
           <label>
             Editor name (optional)
             <input
@@ -1236,7 +2158,34 @@ export default function App() {
               placeholder="e.g., Jamie"
             />
           </label>
-          <textarea value={rulesText} onChange={(event) => setRulesText(event.target.value)} rows={18} />
+          <nav className="tabs rules-views">
+            <button
+              type="button"
+              className={rulesView === 'form' ? 'tab active' : 'tab'}
+              onClick={() => setRulesView('form')}
+            >
+              Form
+            </button>
+            <button
+              type="button"
+              className={rulesView === 'json' ? 'tab active' : 'tab'}
+              onClick={() => setRulesView('json')}
+            >
+              Advanced: JSON
+            </button>
+          </nav>
+          {rulesView === 'json' && (
+            <textarea value={rulesText} onChange={(event) => handleRulesTextChange(event.target.value)} rows={18} />
+          )}
+          {rulesView === 'form' &&
+            (rulesDraft ? (
+              <RulesForm config={rulesDraft} issues={rulesDraftIssues} onChange={handleRulesFormChange} />
+            ) : (
+              <p className="error">
+                The draft is not valid JSON for a rules config, so it can only be edited in the JSON view. Fix it
+                there, or reset to the saved rules.
+              </p>
+            ))}
           {rulesErrors.length > 0 && (
             <div className="error">
               <strong>Fix before saving:</strong>
@@ -1251,6 +2200,12 @@ export default function App() {
             <button type="button" onClick={handleSaveRules}>
               Save Rules
             </button>
+            <button type="button" onClick={handlePreviewRules} disabled={processedFiles.length === 0}>
+              Preview Impact
+            </button>
+            <button type="button" onClick={handleSuggestRules} disabled={processedFiles.length === 0}>
+              Suggest Rules
+            </button>
             <button type="button" onClick={handleResetRules}>
               Reset to Defaults
             </button>
@@ -1263,6 +2218,167 @@ export default function App() {
             </label>
           </div>
 
+          {rulesPreview && (
+            <div className="rules-preview">
+              <h3>Impact of the draft rules</h3>
+              <p>
+                {rulesPreview.impact.changed.length} file(s) would change, {rulesPreview.impact.unchanged} would
+                stay where they are.
+                {rulesPreview.impact.skipped > 0 &&
+                  ` ${rulesPreview.impact.skipped} file(s) were not re-classified (overridden, unread or OCR'd).`}
+              </p>
+              {rulesPreview.impact.changed.length > 0 && (
+                <div className="table-wrapper">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>File</th>
+                        <th>Now</th>
+                        <th>Score</th>
+                        <th>With draft</th>
+                        <th>Score</th>
+                        <th>Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rulesPreview.impact.changed.map((entry) => (
+                        <tr key={entry.hash}>
+                          <td>{entry.relativePath}</td>
+                          <td>
+                            {entry.before.decision === 'assigned' && entry.before.schedule
+                              ? getScheduleLabel(entry.before.schedule, scheduleConfig.schedules)
+                              : `Review (${entry.before.candidate ?? 'Unknown'})`}
+                          </td>
+                          <td>{entry.before.score}</td>
+                          <td>
+                            {entry.after.decision === 'assigned' && entry.after.schedule
+                              ? getScheduleLabel(entry.after.schedule, rulesPreview.config.schedules)
+                              : `Review (${entry.after.candidate ?? 'Unknown'})`}
+                          </td>
+                          <td>{entry.after.score}</td>
+                          <td>{entry.after.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="rules-actions">
+                <button type="button" onClick={handleApproveRulesPreview}>
+                  Approve and Save
+                </button>
+                <button type="button" onClick={handleRejectRulesPreview}>
+                  Reject Draft
+                </button>
+              </div>
+            </div>
+          )}
+
+          {ruleSuggestions && (
+            <div className="rule-suggestions">
+              <h3>Rule suggestions from overrides</h3>
+              {ruleSuggestions.length === 0 ? (
+                <p>
+                  No suggestions. A schedule needs at least two overridden files that the rules alone put elsewhere,
+                  and their text must be kept with the results: files overridden before the sort were not read.
+                </p>
+              ) : (
+                <div className="table-wrapper">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Schedule</th>
+                        <th>Suggestion</th>
+                        <th>Found in</th>
+                        <th>Overrides the rules get right</th>
+                        <th>Other files moved</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ruleSuggestions.map((suggestion) => (
+                        <tr key={`${suggestion.scheduleId}:${suggestion.term}`}>
+                          <td>{getScheduleLabel(suggestion.scheduleId, scheduleConfig.schedules)}</td>
+                          <td>
+                            {suggestion.kind === 'add_keyword'
+                              ? `Add keyword "${suggestion.term}" (weight ${suggestion.weight})`
+                              : `Raise "${suggestion.term}" from ${suggestion.previousWeight} to ${suggestion.weight}`}
+                          </td>
+                          <td>
+                            {suggestion.support} of {suggestion.examples} missed override(s), {suggestion.elsewhere} of{' '}
+                            {suggestion.others} other file(s)
+                          </td>
+                          <td>
+                            {suggestion.effect.overridesMatchedBefore} → {suggestion.effect.overridesMatchedAfter} of{' '}
+                            {suggestion.effect.overrides}
+                          </td>
+                          <td>{suggestion.effect.impact.changed.length}</td>
+                          <td>
+                            <button type="button" onClick={() => handleApplyRuleSuggestion(suggestion)}>
+                              Apply
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="local-model">
+            <h3>Local model</h3>
+            <p>
+              An optional classifier trained on this computer from a golden set and reviewer overrides. Its
+              probability for each schedule is blended into the keyword score; the manifest records its vote and
+              confidence for each file. It is updated whenever an override is added, changed or undone.
+            </p>
+            {localModel.model ? (
+              <p>
+                Trained {new Date(localModel.model.trainedAt).toLocaleString()} on {localModel.model.golden.length}{' '}
+                golden-set and {Object.keys(localModel.model.overrides).length} override document(s) across{' '}
+                {getModelSchedules(localModel.model).length} schedule(s).
+              </p>
+            ) : (
+              <p>No model trained yet.</p>
+            )}
+            <div className="rules-actions">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={localModel.enabled}
+                  disabled={!localModel.model}
+                  onChange={(event) => handleLocalModelChange({ enabled: event.target.checked })}
+                />{' '}
+                Blend into scores
+              </label>
+              <label>
+                Model share of the score
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={localModel.weight}
+                  onChange={(event) =>
+                    handleLocalModelChange({ weight: Math.min(1, Math.max(0, Number(event.target.value))) })
+                  }
+                />
+              </label>
+              <label className="import">
+                Load Golden Set JSON
+                <input type="file" accept="application/json" onChange={handleLoadGoldenSet} />
+              </label>
+              <button type="button" onClick={handleTrainLocalModel}>
+                {localModel.model ? 'Update Model' : 'Train Model'}
+              </button>
+              <button type="button" onClick={handleDiscardLocalModel} disabled={!localModel.model}>
+                Discard Model
+              </button>
+            </div>
+          </div>
+
           <div className="audit-log">
             <h3>Rules audit trail</h3>
             {rulesAuditLog.length === 0 ? (
@@ -1274,6 +2390,7 @@ export default function App() {
                     <tr>
                       <th>Timestamp</th>
                       <th>Editor</th>
+                      <th>Version</th>
                       <th>Summary</th>
                       <th>Before</th>
                       <th>After</th>
@@ -1284,9 +2401,10 @@ export default function App() {
                       <tr key={`${entry.timestamp}-${entry.afterHash}`}>
                         <td>{new Date(entry.timestamp).toLocaleString()}</td>
                         <td>{entry.editorName ?? '—'}</td>
+                        <td>{entry.version ?? '—'}</td>
                         <td>{entry.summary}</td>
-                        <td>{entry.beforeHash}</td>
-                        <td>{entry.afterHash}</td>
+                        <td title={entry.beforeHash}>{entry.beforeHash.slice(0, 12)}</td>
+                        <td title={entry.afterHash}>{entry.afterHash.slice(0, 12)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -1294,6 +2412,121 @@ export default function App() {
               </div>
             )}
           </div>
+
+          <div className="rules-history">
+            <h3>Rules history</h3>
+            {rulesHistory.versions.length === 0 ? (
+              <p>No versions yet. Saving, resetting or restoring rules records one.</p>
+            ) : (
+              <>
+                <div className="table-wrapper">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Version</th>
+                        <th>Saved</th>
+                        <th>Editor</th>
+                        <th>Action</th>
+                        <th>SHA-256</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...rulesHistory.versions].reverse().map((version) => (
+                        <tr key={version.version} className={version.hash === currentConfigHash ? 'active' : undefined}>
+                          <td>{version.version}</td>
+                          <td>{new Date(version.savedAt).toLocaleString()}</td>
+                          <td>{version.editorName ?? '—'}</td>
+                          <td>
+                            {version.action}
+                            {version.restoredFrom ? ` of v${version.restoredFrom}` : ''}
+                          </td>
+                          <td title={version.hash}>{version.hash.slice(0, 12)}</td>
+                          <td>
+                            <button
+                              type="button"
+                              disabled={version.hash === currentConfigHash}
+                              onClick={() => handleRestoreRulesVersion(version.version)}
+                            >
+                              Restore
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {comparedVersions && (
+                  <>
+                    <div className="rules-compare">
+                      <label>
+                        Compare version
+                        <select
+                          value={comparedVersions.from}
+                          onChange={(event) =>
+                            setCompareVersions({ ...comparedVersions, from: Number(event.target.value) })
+                          }
+                        >
+                          {rulesHistory.versions.map((version) => (
+                            <option key={version.version} value={version.version}>
+                              {version.version}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        with version
+                        <select
+                          value={comparedVersions.to}
+                          onChange={(event) =>
+                            setCompareVersions({ ...comparedVersions, to: Number(event.target.value) })
+                          }
+                        >
+                          {rulesHistory.versions.map((version) => (
+                            <option key={version.version} value={version.version}>
+                              {version.version}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <span>{summarizeRulesDiff(rulesDiff)}</span>
+                    </div>
+                    {rulesDiff.length > 0 && (
+                      <div className="table-wrapper">
+                        <table>
+                          <thead>
+                            <tr>
+                              <th>Change</th>
+                              <th>Kind</th>
+                              <th>Schedule</th>
+                              <th>Item</th>
+                              <th>Before</th>
+                              <th>After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {rulesDiff.map((entry) => (
+                              <tr
+                                key={`${entry.kind}-${entry.scheduleId}-${entry.item}-${entry.change}`}
+                                className={`diff-${entry.change}`}
+                              >
+                                <td>{entry.change}</td>
+                                <td>{entry.kind}</td>
+                                <td>{entry.scheduleId}</td>
+                                <td>{entry.item}</td>
+                                <td>{entry.before ?? '—'}</td>
+                                <td>{entry.after ?? '—'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
         </section>
       )}
     </div>
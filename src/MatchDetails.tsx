@@ -0,0 +1,135 @@
+// src/MatchDetails.tsx
+// Details drawer for one file: the terms that matched for each schedule, with their counts and
+// contributions to its score, and the extracted text with each hit of the chosen schedule marked.
+
+import { useMemo, useState } from 'react';
+import type { MatchedTerm, MatchedTermKind } from './classify';
+import type { ProcessedFile } from './reports';
+import { getScheduleLabel } from './scheduleConfig';
+import type { ScheduleDefinition, ScheduleId } from './schedules';
+
+interface MatchDetailsProps {
+  file: ProcessedFile;
+  schedules: ScheduleDefinition[];
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<MatchedTermKind, string> = {
+  keyword: 'Keyword',
+  smallTerm: 'Small term',
+  negativeTerm: 'Negative',
+  proximityTerm: 'Proximity',
+  regexTerm: 'Regex',
+};
+
+type Segment = { text: string; term?: MatchedTerm };
+
+// Splits the text at each hit. Hits that overlap an earlier one (a proximity term over a
+// keyword, say) are left unmarked so every character is shown once.
+function splitAtHits(text: string, terms: MatchedTerm[]): Segment[] {
+  const hits = terms
+    .flatMap((term) => (term.offsets ?? []).map(([start, end]) => ({ start, end, term })))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+  const segments: Segment[] = [];
+  let position = 0;
+  for (const hit of hits) {
+    if (hit.start < position) continue;
+    if (hit.start > position) segments.push({ text: text.slice(position, hit.start) });
+    segments.push({ text: text.slice(hit.start, hit.end), term: hit.term });
+    position = hit.end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+}
+
+export default function MatchDetails({ file, schedules, onClose }: MatchDetailsProps) {
+  const matched = useMemo(
+    () =>
+      (Object.keys(file.matches ?? {}) as ScheduleId[]).sort((a, b) => (file.scores[b] ?? 0) - (file.scores[a] ?? 0)),
+    [file]
+  );
+  const initial = file.schedule ?? (file.candidate !== 'Unknown' ? file.candidate : undefined);
+  const [highlighted, setHighlighted] = useState<ScheduleId | undefined>(
+    initial && file.matches?.[initial] ? initial : matched[0]
+  );
+  const text = file.text ?? '';
+  const segments = useMemo(
+    () => splitAtHits(text, highlighted ? (file.matches?.[highlighted] ?? []) : []),
+    [text, file, highlighted]
+  );
+
+  return (
+    <aside className="details-drawer" aria-label={`Details for ${file.name}`}>
+      <div className="details-header">
+        <h3>{file.name}</h3>
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <p>
+        {file.reason} · score {file.score}
+      </p>
+
+      {matched.length === 0 ? (
+        <p>No terms matched. The file was decided without scoring its text, or it has no text.</p>
+      ) : (
+        matched.map((scheduleId) => (
+          <div key={scheduleId} className="details-schedule">
+            <h4>
+              <label>
+                <input
+                  type="radio"
+                  name="highlighted-schedule"
+                  checked={highlighted === scheduleId}
+                  onChange={() => setHighlighted(scheduleId)}
+                />{' '}
+                {getScheduleLabel(scheduleId, schedules)} — {file.scores[scheduleId] ?? 0}
+              </label>
+            </h4>
+            <table>
+              <thead>
+                <tr>
+                  <th>Term</th>
+                  <th>Kind</th>
+                  <th>Count</th>
+                  <th>Contribution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {file.matches?.[scheduleId]?.map((term) => (
+                  <tr key={`${term.kind}:${term.term}`}>
+                    <td>{term.term}</td>
+                    <td>{KIND_LABELS[term.kind]}</td>
+                    <td>{term.count}</td>
+                    <td>{term.contribution > 0 ? `+${term.contribution}` : term.contribution}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+
+      <h4>Extracted text</h4>
+      {text ? (
+        <pre className="details-text">
+          {segments.map((segment, index) =>
+            segment.term ? (
+              <mark
+                key={index}
+                className={segment.term.contribution < 0 ? 'negative' : undefined}
+                title={`${segment.term.term} (${segment.term.contribution > 0 ? '+' : ''}${segment.term.contribution})`}
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              segment.text
+            )
+          )}
+        </pre>
+      ) : (
+        <p>No text was extracted from this file, or it was not kept with a previous run's decision.</p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,188 @@
+// src/ReviewPreview.tsx
+// Inline preview of the current Review Needed item with page navigation, and keyboard triage:
+// a key per schedule assigns the shown file and moves on to the next one. App applies the
+// assignment as an ordinary review override.
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { openPreviewDocument, type PreviewDocument } from './documentPreview';
+import type { ProcessedFile } from './reports';
+import { getScheduleLabel } from './scheduleConfig';
+import type { ScheduleDefinition, ScheduleId } from './schedules';
+
+interface ReviewPreviewProps {
+  file: ProcessedFile;
+  /** 1-based position of `file` in the filtered review list. */
+  position: number;
+  total: number;
+  schedules: ScheduleDefinition[];
+  onAssign: (scheduleId: ScheduleId) => void;
+  onMove: (offset: 1 | -1) => void;
+  onClose: () => void;
+}
+
+// One key per schedule in display order; J and K are kept for moving between files.
+const SCHEDULE_KEYS = '1234567890abcdefghilmnopqrstuvwxyz'.split('');
+
+function isTyping(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+export default function ReviewPreview({
+  file,
+  position,
+  total,
+  schedules,
+  onAssign,
+  onMove,
+  onClose,
+}: ReviewPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [preview, setPreview] = useState<PreviewDocument | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // App remounts this component for each file, so state starts fresh.
+  useEffect(() => {
+    let cancelled = false;
+    let opened: PreviewDocument | null = null;
+    let url: string | null = null;
+    openPreviewDocument(file.file)
+      .then((result) => {
+        if (cancelled) {
+          result?.destroy();
+          return;
+        }
+        if (result) {
+          opened = result;
+          setPreview(result);
+        } else {
+          url = URL.createObjectURL(file.file);
+          setImageUrl(url);
+        }
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) setError(`Could not open ${file.name}: ${String(reason)}`);
+      });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!preview || !canvasRef.current || preview.pageCount === 0) return;
+    preview.renderPage(page, canvasRef.current).catch((reason: unknown) => {
+      setError(`Could not render page ${page}: ${String(reason)}`);
+    });
+  }, [preview, page]);
+
+  const pageCount = preview?.pageCount ?? 1;
+  const shortcuts = useMemo(
+    () =>
+      schedules.slice(0, SCHEDULE_KEYS.length).map((schedule, index) => ({
+        key: SCHEDULE_KEYS[index],
+        scheduleId: schedule.id,
+      })),
+    [schedules]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'arrowdown' || key === 'j') {
+        onMove(1);
+      } else if (key === 'arrowup' || key === 'k') {
+        onMove(-1);
+      } else if (key === 'arrowright' || key === 'pagedown') {
+        setPage((current) => Math.min(current + 1, pageCount));
+      } else if (key === 'arrowleft' || key === 'pageup') {
+        setPage((current) => Math.max(current - 1, 1));
+      } else if (key === 'escape') {
+        onClose();
+      } else {
+        const shortcut = shortcuts.find((item) => item.key === key);
+        if (!shortcut) return;
+        onAssign(shortcut.scheduleId);
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, pageCount, onAssign, onMove, onClose]);
+
+  return (
+    <div className="review-preview">
+      <div className="preview-header">
+        <div>
+          <strong>{file.name}</strong> ({position} of {total})<div className="preview-path">{file.relativePath}</div>
+        </div>
+        <div className="preview-actions">
+          <button type="button" onClick={() => onMove(-1)} disabled={position <= 1}>
+            Previous file
+          </button>
+          <button type="button" onClick={() => onMove(1)} disabled={position >= total}>
+            Next file
+          </button>
+          <button type="button" onClick={onClose}>
+            Close preview
+          </button>
+        </div>
+      </div>
+
+      <div className="preview-body">
+        <div className="preview-document">
+          {error ? (
+            <p className="error">{error}</p>
+          ) : preview ? (
+            preview.pageCount === 0 ? (
+              <p>This document has no pages.</p>
+            ) : (
+              <>
+                <canvas ref={canvasRef} />
+                {pageCount > 1 && (
+                  <div className="preview-pages">
+                    <button type="button" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                      Previous page
+                    </button>
+                    <span>
+                      Page {page} of {pageCount}
+                    </span>
+                    <button type="button" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                      Next page
+                    </button>
+                  </div>
+                )}
+              </>
+            )
+          ) : imageUrl ? (
+            <img src={imageUrl} alt={file.name} onError={() => setError(`${file.name} could not be shown.`)} />
+          ) : (
+            <p>Loading preview…</p>
+          )}
+        </div>
+
+        <div className="preview-shortcuts">
+          <h4>Assign and go to the next file</h4>
+          <ul>
+            {shortcuts.map(({ key, scheduleId }) => (
+              <li key={scheduleId}>
+                <button type="button" className="link" onClick={() => onAssign(scheduleId)}>
+                  <kbd>{key.toUpperCase()}</kbd> {getScheduleLabel(scheduleId, schedules)}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="hint">↑/↓ or J/K: previous/next file · ←/→: page · Esc: close</p>
+        </div>
+      </div>
+    </div>
+  );
+}
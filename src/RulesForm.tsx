@@ -0,0 +1,815 @@
+// src/RulesForm.tsx
+// Form view of the Rules Editor: a panel per schedule with keyword and small-term tables, the
+// filename-rule list with a regex tester, and validation messages beside the fields they concern.
+// It edits the same draft as the JSON view; App keeps that draft as text.
+
+import { useMemo, useState } from 'react';
+import { normalizeText } from './normalize';
+import type { ConfigIssue, FilenameRuleConfig, PathRuleConfig, ScheduleConfig } from './scheduleConfig';
+import type { ProximityTerm, RegexTerm, ScheduleDefinition, WeightedTerm } from './schedules';
+
+type TermList = 'keywords' | 'smallTerms' | 'negativeTerms';
+
+const TERM_LIST_TITLES: Record<TermList, string> = {
+  keywords: 'Keywords',
+  smallTerms: 'Small terms',
+  negativeTerms: 'Negative terms',
+};
+
+interface RulesFormProps {
+  config: ScheduleConfig;
+  issues: ConfigIssue[];
+  onChange: (config: ScheduleConfig) => void;
+}
+
+const DEFAULT_SAMPLE_FILENAMES = [
+  'Smith funeral home invoice.pdf',
+  'Form 709 gift tax return 2019.pdf',
+  'Chase credit card statement March.pdf',
+  'Life Insurance/Letter from insurer.pdf',
+  'House - 12 Oak St/Closing documents.pdf',
+].join('\n');
+
+const MAX_SLIDER_WEIGHT = 20;
+
+function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+function uniqueScheduleId(schedules: ScheduleDefinition[]): string {
+  const taken = new Set(schedules.map((schedule) => schedule.id));
+  let counter = 1;
+  while (taken.has(`New_Schedule_${counter}`)) counter += 1;
+  return `New_Schedule_${counter}`;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return pattern ? new RegExp(pattern, 'i') : null;
+  } catch {
+    return null;
+  }
+}
+
+function FieldError({ issues, path }: { issues: ConfigIssue[]; path: string }) {
+  const messages = issues.filter((issue) => issue.path === path).map((issue) => issue.message);
+  if (messages.length === 0) return null;
+  return <span className="field-error">{messages.join(' ')}</span>;
+}
+
+function WeightInput({
+  weight,
+  negative = false,
+  onChange,
+}: {
+  weight: number;
+  negative?: boolean;
+  onChange: (weight: number) => void;
+}) {
+  // A cleared number field is saved as null in the JSON; show it as empty.
+  const value = Number.isFinite(weight) ? weight : 0;
+  return (
+    <>
+      <input
+        type="range"
+        min={negative ? Math.min(-MAX_SLIDER_WEIGHT, value) : Math.min(0, value)}
+        max={negative ? Math.max(0, value) : Math.max(MAX_SLIDER_WEIGHT, value)}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
+      <input
+        type="number"
+        value={Number.isFinite(weight) ? weight : ''}
+        onChange={(event) => onChange(event.target.valueAsNumber)}
+      />
+    </>
+  );
+}
+
+function TermTable({
+  title,
+  terms,
+  path,
+  issues,
+  negative = false,
+  onChange,
+}: {
+  title: string;
+  terms: WeightedTerm[];
+  path: string;
+  issues: ConfigIssue[];
+  negative?: boolean;
+  onChange: (terms: WeightedTerm[]) => void;
+}) {
+  const updateTerm = (index: number, patch: Partial<WeightedTerm>) =>
+    onChange(terms.map((term, termIndex) => (termIndex === index ? { ...term, ...patch } : term)));
+  // Sorting reorders the saved list; the order of terms does not affect scoring.
+  const sortBy = (key: 'term' | 'weight') =>
+    onChange([...terms].sort((a, b) => (key === 'term' ? a.term.localeCompare(b.term) : b.weight - a.weight)));
+
+  return (
+    <div className="term-table">
+      <h4>
+        {title} ({terms.length})
+      </h4>
+      <table>
+        <thead>
+          <tr>
+            <th>
+              <button type="button" className="link" onClick={() => sortBy('term')} title="Sort A–Z">
+                Term ↕
+              </button>
+            </th>
+            <th>
+              <button type="button" className="link" onClick={() => sortBy('weight')} title="Sort by weight">
+                Weight ↕
+              </button>
+            </th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {terms.map((term, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={term.term}
+                  onChange={(event) => updateTerm(index, { term: event.target.value })}
+                />
+                <FieldError issues={issues} path={`${path}.${index}.term`} />
+              </td>
+              <td className="weight">
+                <WeightInput
+                  weight={term.weight}
+                  negative={negative}
+                  onChange={(weight) => updateTerm(index, { weight })}
+                />
+                <FieldError issues={issues} path={`${path}.${index}.weight`} />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => onChange(terms.filter((_, termIndex) => termIndex !== index))}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        className="link"
+        onClick={() => onChange([...terms, { term: '', weight: negative ? -1 : 1 }])}
+      >
+        Add {title.toLowerCase().replace(/s$/, '')}
+      </button>
+    </div>
+  );
+}
+
+function ProximityTable({
+  terms,
+  path,
+  issues,
+  onChange,
+}: {
+  terms: ProximityTerm[];
+  path: string;
+  issues: ConfigIssue[];
+  onChange: (terms: ProximityTerm[]) => void;
+}) {
+  const updateTerm = (index: number, patch: Partial<ProximityTerm>) =>
+    onChange(terms.map((term, termIndex) => (termIndex === index ? { ...term, ...patch } : term)));
+
+  return (
+    <div className="term-table">
+      <h4>Proximity terms ({terms.length})</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>Term</th>
+            <th>Within (words)</th>
+            <th>Of term</th>
+            <th>Weight</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {terms.map((term, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={term.terms[0]}
+                  onChange={(event) => updateTerm(index, { terms: [event.target.value, term.terms[1]] })}
+                />
+                <FieldError issues={issues} path={`${path}.${index}.terms`} />
+              </td>
+              <td className="weight">
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isFinite(term.within) ? term.within : ''}
+                  onChange={(event) => updateTerm(index, { within: event.target.valueAsNumber })}
+                />
+                <FieldError issues={issues} path={`${path}.${index}.within`} />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={term.terms[1]}
+                  onChange={(event) => updateTerm(index, { terms: [term.terms[0], event.target.value] })}
+                />
+              </td>
+              <td className="weight">
+                <WeightInput weight={term.weight} onChange={(weight) => updateTerm(index, { weight })} />
+                <FieldError issues={issues} path={`${path}.${index}.weight`} />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => onChange(terms.filter((_, termIndex) => termIndex !== index))}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        className="link"
+        onClick={() => onChange([...terms, { terms: ['', ''], within: 10, weight: 1 }])}
+      >
+        Add proximity term
+      </button>
+    </div>
+  );
+}
+
+function RegexTable({
+  terms,
+  path,
+  issues,
+  onChange,
+}: {
+  terms: RegexTerm[];
+  path: string;
+  issues: ConfigIssue[];
+  onChange: (terms: RegexTerm[]) => void;
+}) {
+  const updateTerm = (index: number, patch: Partial<RegexTerm>) =>
+    onChange(terms.map((term, termIndex) => (termIndex === index ? { ...term, ...patch } : term)));
+
+  return (
+    <div className="term-table">
+      <h4>Regex terms ({terms.length})</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>Pattern (case-insensitive, on the extracted text)</th>
+            <th>Weight</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {terms.map((term, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={term.pattern}
+                  onChange={(event) => updateTerm(index, { pattern: event.target.value })}
+                />
+                <FieldError issues={issues} path={`${path}.${index}.pattern`} />
+              </td>
+              <td className="weight">
+                <WeightInput weight={term.weight} onChange={(weight) => updateTerm(index, { weight })} />
+                <FieldError issues={issues} path={`${path}.${index}.weight`} />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => onChange(terms.filter((_, termIndex) => termIndex !== index))}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" className="link" onClick={() => onChange([...terms, { pattern: '', weight: 1 }])}>
+        Add regex term
+      </button>
+    </div>
+  );
+}
+
+// Edited as one comma-separated line and applied when the field loses focus, so typing a
+// comma does not immediately drop the empty term after it.
+function RequiredTermsField({
+  terms,
+  path,
+  issues,
+  onChange,
+}: {
+  terms: string[];
+  path: string;
+  issues: ConfigIssue[];
+  onChange: (terms: string[]) => void;
+}) {
+  const joined = terms.join(', ');
+  const [text, setText] = useState(joined);
+  const [lastJoined, setLastJoined] = useState(joined);
+  if (joined !== lastJoined) {
+    setLastJoined(joined);
+    setText(joined);
+  }
+  const messages = issues.filter((issue) => issue.path.startsWith(`${path}.`)).map((issue) => issue.message);
+
+  return (
+    <label className="required-terms">
+      Required terms (comma-separated; the schedule scores 0 unless the text has all of them)
+      <input
+        type="text"
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={() =>
+          onChange(
+            text
+              .split(',')
+              .map((term) => term.trim())
+              .filter(Boolean)
+          )
+        }
+      />
+      {messages.length > 0 && <span className="field-error">{messages.join(' ')}</span>}
+    </label>
+  );
+}
+
+export default function RulesForm({ config, issues, onChange }: RulesFormProps) {
+  const [sampleFilenames, setSampleFilenames] = useState(DEFAULT_SAMPLE_FILENAMES);
+
+  const updateSchedule = (index: number, schedule: ScheduleDefinition) =>
+    onChange({ ...config, schedules: config.schedules.map((item, i) => (i === index ? schedule : item)) });
+  const updateRule = (index: number, patch: Partial<FilenameRuleConfig>) =>
+    onChange({
+      ...config,
+      filenameRules: config.filenameRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    });
+
+  const pathRules = config.pathRules ?? [];
+  const updatePathRule = (index: number, patch: Partial<PathRuleConfig>) =>
+    onChange({ ...config, pathRules: pathRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  // Filename rules are tried in priority order against the normalized filename, and path rules
+  // against each normalized folder, as in classifyDocument.
+  const compiledRules = useMemo(() => config.filenameRules.map((rule) => compilePattern(rule.pattern)), [config]);
+  const ruleOrder = useMemo(
+    () =>
+      config.filenameRules
+        .map((rule, index) => ({ index, priority: rule.priority ?? 0 }))
+        .sort((a, b) => b.priority - a.priority)
+        .map(({ index }) => index),
+    [config]
+  );
+  const compiledPathRules = useMemo(
+    () => (config.pathRules ?? []).map((rule) => compilePattern(rule.pattern)),
+    [config]
+  );
+  const sampleMatches = useMemo(
+    () =>
+      sampleFilenames
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((sample) => {
+          const segments = sample.split('/').map(normalizeText);
+          const filename = segments.pop() ?? '';
+          const ruleIndex = ruleOrder.find((index) => compiledRules[index]?.test(filename)) ?? -1;
+          const pathRuleIndexes = compiledPathRules.flatMap((pattern, index) =>
+            segments.some((segment) => pattern?.test(segment)) ? [index] : []
+          );
+          return { sample, ruleIndex, pathRuleIndexes };
+        }),
+    [sampleFilenames, ruleOrder, compiledRules, compiledPathRules]
+  );
+  const scheduleLabel = (id: string) => config.schedules.find((schedule) => schedule.id === id)?.label ?? id;
+  const describeSample = ({ ruleIndex, pathRuleIndexes }: (typeof sampleMatches)[number]): string => {
+    const filenameRule = config.filenameRules[ruleIndex];
+    if (filenameRule && (filenameRule.mode ?? 'assign') === 'assign') {
+      return `filename rule ${ruleIndex + 1} (${scheduleLabel(filenameRule.schedule)})`;
+    }
+    const assign = pathRuleIndexes.find((index) => pathRules[index].mode === 'assign');
+    if (assign !== undefined) {
+      return `path rule ${assign + 1} (${scheduleLabel(pathRules[assign].schedule)})`;
+    }
+    const boosts = pathRuleIndexes.map(
+      (index) =>
+        `path rule ${index + 1} adds ${pathRules[index].weight ?? 0} to ${scheduleLabel(pathRules[index].schedule)}`
+    );
+    if (filenameRule) {
+      boosts.unshift(
+        `filename rule ${ruleIndex + 1} adds ${filenameRule.weight ?? 0} to ${scheduleLabel(filenameRule.schedule)}`
+      );
+    }
+    return ['classified by its content', ...boosts].join('; ');
+  };
+
+  const configIssues = issues.filter((issue) => !issue.path.includes('.'));
+
+  return (
+    <div className="rules-form">
+      {configIssues.length > 0 && (
+        <div className="error">
+          {configIssues.map((issue) => (
+            <p key={issue.message}>{issue.message}</p>
+          ))}
+        </div>
+      )}
+
+      <h3>Schedules</h3>
+      {config.schedules.map((schedule, index) => {
+        const path = `schedules.${index}`;
+        const hasIssues = issues.some((issue) => issue.path.startsWith(`${path}.`));
+        return (
+          <details key={index} className={hasIssues ? 'schedule-panel invalid' : 'schedule-panel'} open={hasIssues}>
+            <summary>
+              {schedule.label || schedule.id || 'Untitled schedule'}
+              <span className="muted">
+                {' '}
+                {schedule.keywords.length} keywords, {schedule.smallTerms.length} small terms
+              </span>
+            </summary>
+            <div className="schedule-fields">
+              <label>
+                Id
+                <input
+                  type="text"
+                  value={schedule.id}
+                  onChange={(event) => updateSchedule(index, { ...schedule, id: event.target.value })}
+                />
+                <FieldError issues={issues} path={`${path}.id`} />
+              </label>
+              <label>
+                Label
+                <input
+                  type="text"
+                  value={schedule.label}
+                  onChange={(event) => updateSchedule(index, { ...schedule, label: event.target.value })}
+                />
+                <FieldError issues={issues} path={`${path}.label`} />
+              </label>
+              <label>
+                Folder
+                <input
+                  type="text"
+                  value={schedule.folder ?? ''}
+                  placeholder={schedule.id}
+                  onChange={(event) => updateSchedule(index, { ...schedule, folder: event.target.value || undefined })}
+                />
+                <FieldError issues={issues} path={`${path}.folder`} />
+              </label>
+            </div>
+            <div className="term-tables">
+              {(['keywords', 'smallTerms', 'negativeTerms'] as TermList[]).map((list) => (
+                <TermTable
+                  key={list}
+                  title={TERM_LIST_TITLES[list]}
+                  terms={schedule[list] ?? []}
+                  path={`${path}.${list}`}
+                  issues={issues}
+                  negative={list === 'negativeTerms'}
+                  onChange={(terms) => updateSchedule(index, { ...schedule, [list]: terms })}
+                />
+              ))}
+              <ProximityTable
+                terms={schedule.proximityTerms ?? []}
+                path={`${path}.proximityTerms`}
+                issues={issues}
+                onChange={(proximityTerms) => updateSchedule(index, { ...schedule, proximityTerms })}
+              />
+              <RegexTable
+                terms={schedule.regexTerms ?? []}
+                path={`${path}.regexTerms`}
+                issues={issues}
+                onChange={(regexTerms) => updateSchedule(index, { ...schedule, regexTerms })}
+              />
+            </div>
+            <RequiredTermsField
+              terms={schedule.requiredTerms ?? []}
+              path={`${path}.requiredTerms`}
+              issues={issues}
+              onChange={(requiredTerms) => updateSchedule(index, { ...schedule, requiredTerms })}
+            />
+            <div className="rules-actions">
+              <button
+                type="button"
+                onClick={() => onChange({ ...config, schedules: moveItem(config.schedules, index, -1) })}
+              >
+                Move Up
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...config, schedules: moveItem(config.schedules, index, 1) })}
+              >
+                Move Down
+              </button>
+              <button
+                type="button"
+                className="danger"
+                onClick={() =>
+                  onChange({
+                    ...config,
+                    schedules: config.schedules.filter((_, scheduleIndex) => scheduleIndex !== index),
+                  })
+                }
+              >
+                Remove Schedule
+              </button>
+            </div>
+          </details>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() =>
+          onChange({
+            ...config,
+            schedules: [
+              ...config.schedules,
+              { id: uniqueScheduleId(config.schedules), label: 'New schedule', keywords: [], smallTerms: [] },
+            ],
+          })
+        }
+      >
+        Add Schedule
+      </button>
+
+      <h3>Filename rules</h3>
+      <p>
+        Tried against each filename, highest priority first and then in order; only the first match counts.{' '}
+        <em>Assign</em> files it without scoring its text; <em>boost</em> adds the weight to the schedule's keyword
+        score. Either way, a file whose content clearly points to another schedule goes to review.
+      </p>
+      <div className="table-wrapper">
+        <table className="filename-rules">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Pattern (regex, case-insensitive)</th>
+              <th>Schedule</th>
+              <th>Mode</th>
+              <th>Weight</th>
+              <th>Priority</th>
+              <th>Samples matched</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {config.filenameRules.map((rule, index) => (
+              <tr key={index}>
+                <td>{index + 1}</td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(event) => updateRule(index, { pattern: event.target.value })}
+                  />
+                  <FieldError issues={issues} path={`filenameRules.${index}.pattern`} />
+                </td>
+                <td>
+                  <select
+                    value={rule.schedule}
+                    onChange={(event) => updateRule(index, { schedule: event.target.value })}
+                  >
+                    {!config.schedules.some((schedule) => schedule.id === rule.schedule) && (
+                      <option value={rule.schedule}>{rule.schedule || '—'}</option>
+                    )}
+                    {config.schedules.map((schedule) => (
+                      <option key={schedule.id} value={schedule.id}>
+                        {schedule.label || schedule.id}
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError issues={issues} path={`filenameRules.${index}.schedule`} />
+                </td>
+                <td>
+                  <select
+                    value={rule.mode ?? 'assign'}
+                    onChange={(event) =>
+                      updateRule(index, {
+                        mode: event.target.value as FilenameRuleConfig['mode'],
+                        weight: event.target.value === 'boost' ? (rule.weight ?? 12) : undefined,
+                      })
+                    }
+                  >
+                    <option value="assign">Assign</option>
+                    <option value="boost">Boost</option>
+                  </select>
+                  <FieldError issues={issues} path={`filenameRules.${index}.mode`} />
+                </td>
+                <td className="weight">
+                  {rule.mode === 'boost' && (
+                    <WeightInput weight={rule.weight ?? 0} onChange={(weight) => updateRule(index, { weight })} />
+                  )}
+                  <FieldError issues={issues} path={`filenameRules.${index}.weight`} />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="priority"
+                    value={rule.priority ?? ''}
+                    placeholder="0"
+                    onChange={(event) =>
+                      updateRule(index, {
+                        priority: event.target.value === '' ? undefined : Number(event.target.value),
+                      })
+                    }
+                  />
+                  <FieldError issues={issues} path={`filenameRules.${index}.priority`} />
+                </td>
+                <td>{sampleMatches.filter((sample) => sample.ruleIndex === index).length}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => onChange({ ...config, filenameRules: moveItem(config.filenameRules, index, -1) })}
+                  >
+                    Up
+                  </button>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => onChange({ ...config, filenameRules: moveItem(config.filenameRules, index, 1) })}
+                  >
+                    Down
+                  </button>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() =>
+                      onChange({ ...config, filenameRules: config.filenameRules.filter((_, i) => i !== index) })
+                    }
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        type="button"
+        onClick={() =>
+          onChange({
+            ...config,
+            filenameRules: [...config.filenameRules, { pattern: '', schedule: config.schedules[0]?.id ?? '' }],
+          })
+        }
+      >
+        Add Filename Rule
+      </button>
+
+      <h3>Path rules</h3>
+      <p>
+        Tried against each folder a file is in, nearest first. <em>Assign</em> files a match without reading it, after
+        filename rules; <em>boost</em> adds the weight to the schedule's keyword score.
+      </p>
+      <div className="table-wrapper">
+        <table className="filename-rules">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Folder pattern (regex, case-insensitive)</th>
+              <th>Schedule</th>
+              <th>Mode</th>
+              <th>Weight</th>
+              <th>Samples matched</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pathRules.map((rule, index) => (
+              <tr key={index}>
+                <td>{index + 1}</td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(event) => updatePathRule(index, { pattern: event.target.value })}
+                  />
+                  <FieldError issues={issues} path={`pathRules.${index}.pattern`} />
+                </td>
+                <td>
+                  <select
+                    value={rule.schedule}
+                    onChange={(event) => updatePathRule(index, { schedule: event.target.value })}
+                  >
+                    {!config.schedules.some((schedule) => schedule.id === rule.schedule) && (
+                      <option value={rule.schedule}>{rule.schedule || '—'}</option>
+                    )}
+                    {config.schedules.map((schedule) => (
+                      <option key={schedule.id} value={schedule.id}>
+                        {schedule.label || schedule.id}
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError issues={issues} path={`pathRules.${index}.schedule`} />
+                </td>
+                <td>
+                  <select
+                    value={rule.mode}
+                    onChange={(event) =>
+                      updatePathRule(index, {
+                        mode: event.target.value as PathRuleConfig['mode'],
+                        weight: event.target.value === 'boost' ? (rule.weight ?? 6) : undefined,
+                      })
+                    }
+                  >
+                    <option value="assign">Assign</option>
+                    <option value="boost">Boost</option>
+                  </select>
+                  <FieldError issues={issues} path={`pathRules.${index}.mode`} />
+                </td>
+                <td className="weight">
+                  {rule.mode === 'boost' && (
+                    <WeightInput weight={rule.weight ?? 0} onChange={(weight) => updatePathRule(index, { weight })} />
+                  )}
+                  <FieldError issues={issues} path={`pathRules.${index}.weight`} />
+                </td>
+                <td>{sampleMatches.filter((sample) => sample.pathRuleIndexes.includes(index)).length}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => onChange({ ...config, pathRules: moveItem(pathRules, index, -1) })}
+                  >
+                    Up
+                  </button>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => onChange({ ...config, pathRules: moveItem(pathRules, index, 1) })}
+                  >
+                    Down
+                  </button>
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => onChange({ ...config, pathRules: pathRules.filter((_, i) => i !== index) })}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        type="button"
+        onClick={() =>
+          onChange({
+            ...config,
+            pathRules: [
+              ...pathRules,
+              { pattern: '', schedule: config.schedules[0]?.id ?? '', mode: 'boost', weight: 6 },
+            ],
+          })
+        }
+      >
+        Add Path Rule
+      </button>
+
+      <div className="regex-tester">
+        <h4>Test filenames and paths</h4>
+        <label>
+          One filename or folder/filename path per line
+          <textarea value={sampleFilenames} onChange={(event) => setSampleFilenames(event.target.value)} rows={4} />
+        </label>
+        <ul>
+          {sampleMatches.map((match) => (
+            <li key={match.sample}>
+              <strong>{match.sample}</strong> → {describeSample(match)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
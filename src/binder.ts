@@ -0,0 +1,410 @@
+// src/binder.ts
+// Combine the sorted 706/<schedule>/ documents into exhibit binders: one PDF per schedule or
+// one master PDF, each with a generated table of contents, a bookmark per source document
+// and optional exhibit or Bates numbers stamped on every document page. Images become pages.
+
+import {
+  concatTransformationMatrix,
+  drawObject,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  StandardFonts,
+  type PDFFont,
+  type PDFPage,
+} from 'pdf-lib';
+import UTIF from 'utif';
+import type { ProcessedFile } from './reports';
+import { getScheduleFolder, getScheduleLabel, type ScheduleConfig } from './scheduleConfig';
+import type { ZipFileInput } from './zipExport';
+
+export type BinderScope = 'per-schedule' | 'master';
+export type BinderStamp = 'none' | 'exhibit' | 'bates';
+
+export interface BinderOptions {
+  scope: BinderScope;
+  stamp: BinderStamp;
+  /** Prepended to Bates numbers, e.g. "SMITH" gives SMITH000001. */
+  batesPrefix: string;
+  batesStart: number;
+}
+
+export const DEFAULT_BINDER_OPTIONS: BinderOptions = {
+  scope: 'per-schedule',
+  stamp: 'none',
+  batesPrefix: '',
+  batesStart: 1,
+};
+
+interface BinderSection {
+  scheduleId: string;
+  label: string;
+  files: ProcessedFile[];
+}
+
+interface BinderDocument {
+  file: ProcessedFile;
+  firstPage: number;
+  pageCount: number;
+  exhibit: number;
+  error?: string;
+}
+
+interface OutlineItem {
+  title: string;
+  page: PDFPage;
+  children?: OutlineItem[];
+}
+
+// US Letter, in points.
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const TOC_LINE_HEIGHT = 16;
+const TOC_LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2 - 40) / TOC_LINE_HEIGHT);
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw.
+function toWinAnsi(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function truncate(value: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  let end = value.length;
+  while (end > 0 && font.widthOfTextAtSize(`${value.slice(0, end)}...`, size) > maxWidth) {
+    end -= 1;
+  }
+  return `${value.slice(0, end)}...`;
+}
+
+function formatBates(options: BinderOptions, index: number): string {
+  return `${toWinAnsi(options.batesPrefix)}${String(options.batesStart + index).padStart(6, '0')}`;
+}
+
+function fitOnPage(width: number, height: number) {
+  const scale = Math.min((PAGE_WIDTH - MARGIN * 2) / width, (PAGE_HEIGHT - MARGIN * 2) / height, 1);
+  return {
+    x: (PAGE_WIDTH - width * scale) / 2,
+    y: (PAGE_HEIGHT - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+}
+
+// pdf-lib embeds PNG and JPEG only; TIFF frames are decoded to raw RGB image XObjects.
+function addTiffPages(binder: PDFDocument, bytes: Uint8Array): number {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  const frames = UTIF.decode(buffer);
+  let added = 0;
+  for (const frame of frames) {
+    UTIF.decodeImage(buffer, frame);
+    if (!frame.width || !frame.height) continue;
+    const rgba = UTIF.toRGBA8(frame);
+    const rgbBytes = new Uint8Array(frame.width * frame.height * 3);
+    for (let source = 0, target = 0; source < rgba.length; source += 4, target += 3) {
+      rgbBytes[target] = rgba[source];
+      rgbBytes[target + 1] = rgba[source + 1];
+      rgbBytes[target + 2] = rgba[source + 2];
+    }
+    const imageRef = binder.context.register(
+      binder.context.flateStream(rgbBytes, {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: frame.width,
+        Height: frame.height,
+        ColorSpace: 'DeviceRGB',
+        BitsPerComponent: 8,
+      })
+    );
+    const page = binder.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const box = fitOnPage(frame.width, frame.height);
+    const name = page.node.newXObject('Image', imageRef);
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(box.width, 0, 0, box.height, box.x, box.y),
+      drawObject(name),
+      popGraphicsState()
+    );
+    added += 1;
+  }
+  if (added === 0) {
+    throw new Error('TIFF has no readable images');
+  }
+  return added;
+}
+
+async function addDocumentPages(binder: PDFDocument, file: ProcessedFile): Promise<number> {
+  const bytes = new Uint8Array(await file.file.arrayBuffer());
+  const lower = file.name.toLowerCase();
+  if (lower.endsWith('.pdf')) {
+    const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    const pages = await binder.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => binder.addPage(page));
+    return pages.length;
+  }
+  if (lower.endsWith('.tif') || lower.endsWith('.tiff')) {
+    return addTiffPages(binder, bytes);
+  }
+  const image = lower.endsWith('.png') ? await binder.embedPng(bytes) : await binder.embedJpg(bytes);
+  const page = binder.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const { x, y, width, height } = fitOnPage(image.width, image.height);
+  page.drawImage(image, { x, y, width, height });
+  return 1;
+}
+
+function addErrorPage(binder: PDFDocument, file: ProcessedFile, error: string, font: PDFFont): void {
+  const page = binder.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  page.drawText(toWinAnsi(`Could not include ${file.name}`), { x: MARGIN, y: PAGE_HEIGHT - MARGIN, size: 14, font });
+  page.drawText(truncate(toWinAnsi(error), font, 10, PAGE_WIDTH - MARGIN * 2), {
+    x: MARGIN,
+    y: PAGE_HEIGHT - MARGIN - 24,
+    size: 10,
+    font,
+  });
+  page.drawText(truncate(toWinAnsi(`Source: ${file.relativePath}`), font, 10, PAGE_WIDTH - MARGIN * 2), {
+    x: MARGIN,
+    y: PAGE_HEIGHT - MARGIN - 40,
+    size: 10,
+    font,
+  });
+}
+
+function stampPages(binder: PDFDocument, documents: BinderDocument[], options: BinderOptions, font: PDFFont) {
+  if (options.stamp === 'none') return;
+  const pages = binder.getPages();
+  let batesIndex = 0;
+  for (const document of documents) {
+    for (let offset = 0; offset < document.pageCount; offset += 1) {
+      const page = pages[document.firstPage + offset];
+      const label =
+        options.stamp === 'bates'
+          ? formatBates(options, batesIndex++)
+          : `Exhibit ${document.exhibit} - Page ${offset + 1} of ${document.pageCount}`;
+      const { width } = page.getSize();
+      const size = 9;
+      const textWidth = font.widthOfTextAtSize(label, size);
+      page.drawRectangle({
+        x: width - textWidth - 24,
+        y: 12,
+        width: textWidth + 12,
+        height: size + 8,
+        color: rgb(1, 1, 1),
+        opacity: 0.85,
+      });
+      page.drawText(label, { x: width - textWidth - 18, y: 16, size, font, color: rgb(0, 0, 0) });
+    }
+  }
+}
+
+function documentRangeLabel(document: BinderDocument, options: BinderOptions, batesOffset: number): string {
+  if (options.stamp === 'bates') {
+    const first = formatBates(options, batesOffset);
+    const last = formatBates(options, batesOffset + document.pageCount - 1);
+    return document.pageCount > 1 ? `${first}-${last}` : first;
+  }
+  return `Exhibit ${document.exhibit}`;
+}
+
+// Table-of-contents lines: one per document, plus a heading per schedule in a master binder.
+function buildTocLines(
+  sections: Array<{ label: string; documents: BinderDocument[] }>,
+  options: BinderOptions,
+  withHeadings: boolean
+): Array<{ text: string; page?: number; heading?: boolean }> {
+  const lines: Array<{ text: string; page?: number; heading?: boolean }> = [];
+  let batesOffset = 0;
+  for (const section of sections) {
+    if (withHeadings) {
+      lines.push({ text: section.label, heading: true });
+    }
+    for (const document of section.documents) {
+      const range = documentRangeLabel(document, options, batesOffset);
+      const suffix = document.error ? ' (not included)' : '';
+      lines.push({ text: `${range}  ${document.file.name}${suffix}`, page: document.firstPage });
+      batesOffset += document.pageCount;
+    }
+  }
+  return lines;
+}
+
+function drawTocPages(
+  binder: PDFDocument,
+  title: string,
+  lines: Array<{ text: string; page?: number; heading?: boolean }>,
+  tocPageCount: number,
+  fonts: { regular: PDFFont; bold: PDFFont }
+): PDFPage[] {
+  const tocPages: PDFPage[] = [];
+  for (let pageIndex = 0; pageIndex < tocPageCount; pageIndex += 1) {
+    const page = binder.insertPage(pageIndex, [PAGE_WIDTH, PAGE_HEIGHT]);
+    tocPages.push(page);
+    let y = PAGE_HEIGHT - MARGIN;
+    page.drawText(toWinAnsi(pageIndex === 0 ? title : `${title} (continued)`), {
+      x: MARGIN,
+      y,
+      size: 16,
+      font: fonts.bold,
+    });
+    y -= 32;
+    for (const line of lines.slice(pageIndex * TOC_LINES_PER_PAGE, (pageIndex + 1) * TOC_LINES_PER_PAGE)) {
+      const font = line.heading ? fonts.bold : fonts.regular;
+      const pageLabel = line.page === undefined ? '' : String(line.page + tocPageCount + 1);
+      const pageLabelWidth = fonts.regular.widthOfTextAtSize(pageLabel, 10);
+      const maxWidth = PAGE_WIDTH - MARGIN * 2 - pageLabelWidth - 16;
+      page.drawText(truncate(toWinAnsi(line.text), font, 10, maxWidth), {
+        x: line.heading ? MARGIN : MARGIN + 12,
+        y,
+        size: 10,
+        font,
+      });
+      if (pageLabel) {
+        page.drawText(pageLabel, { x: PAGE_WIDTH - MARGIN - pageLabelWidth, y, size: 10, font: fonts.regular });
+      }
+      y -= TOC_LINE_HEIGHT;
+    }
+  }
+  return tocPages;
+}
+
+// pdf-lib has no outline API, so the /Outlines tree is written as raw dictionaries.
+function addOutline(binder: PDFDocument, items: OutlineItem[]): void {
+  const { context } = binder;
+  const rootRef = context.nextRef();
+
+  const writeLevel = (levelItems: OutlineItem[], parentRef: PDFRef) => {
+    const refs = levelItems.map(() => context.nextRef());
+    let count = 0;
+    levelItems.forEach((item, index) => {
+      const entry = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parentRef,
+        Dest: [item.page.ref, 'Fit'],
+      });
+      if (index > 0) entry.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < refs.length - 1) entry.set(PDFName.of('Next'), refs[index + 1]);
+      if (item.children && item.children.length > 0) {
+        const children = writeLevel(item.children, refs[index]);
+        entry.set(PDFName.of('First'), children.first);
+        entry.set(PDFName.of('Last'), children.last);
+        entry.set(PDFName.of('Count'), PDFNumber.of(children.count));
+        count += children.count;
+      }
+      context.assign(refs[index], entry);
+      count += 1;
+    });
+    return { first: refs[0], last: refs[refs.length - 1], count };
+  };
+
+  const top = writeLevel(items, rootRef);
+  context.assign(rootRef, context.obj({ Type: 'Outlines', First: top.first, Last: top.last, Count: top.count }));
+  binder.catalog.set(PDFName.of('Outlines'), rootRef);
+  binder.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+function pdfBlob(bytes: Uint8Array): Blob {
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: 'application/pdf' });
+}
+
+function collectSections(files: ProcessedFile[], schedules: ScheduleConfig['schedules']): BinderSection[] {
+  return schedules
+    .map((schedule) => ({
+      scheduleId: schedule.id,
+      label: getScheduleLabel(schedule.id, schedules),
+      files: files
+        .filter((file) => file.decision === 'assigned' && file.schedule === schedule.id && !file.excludedFromExport)
+        .sort((a, b) => a.outputPath.localeCompare(b.outputPath)),
+    }))
+    .filter((section) => section.files.length > 0);
+}
+
+async function buildBinderPdf(title: string, sections: BinderSection[], options: BinderOptions, master: boolean) {
+  const binder = await PDFDocument.create();
+  binder.setTitle(title);
+  const fonts = {
+    regular: await binder.embedFont(StandardFonts.Helvetica),
+    bold: await binder.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  let exhibit = 0;
+  const binderSections: Array<{ label: string; documents: BinderDocument[] }> = [];
+  for (const section of sections) {
+    const documents: BinderDocument[] = [];
+    for (const file of section.files) {
+      const firstPage = binder.getPageCount();
+      exhibit += 1;
+      try {
+        const pageCount = await addDocumentPages(binder, file);
+        documents.push({ file, firstPage, pageCount, exhibit });
+      } catch (error) {
+        // A half-copied document may have added pages; drop them before the error page.
+        while (binder.getPageCount() > firstPage) {
+          binder.removePage(binder.getPageCount() - 1);
+        }
+        addErrorPage(binder, file, String(error), fonts.regular);
+        documents.push({ file, firstPage, pageCount: 1, exhibit, error: String(error) });
+      }
+    }
+    binderSections.push({ label: section.label, documents });
+  }
+
+  const allDocuments = binderSections.flatMap((section) => section.documents);
+  stampPages(binder, allDocuments, options, fonts.regular);
+
+  const tocLines = buildTocLines(binderSections, options, master);
+  const tocPageCount = Math.max(1, Math.ceil(tocLines.length / TOC_LINES_PER_PAGE));
+  const tocPages = drawTocPages(binder, title, tocLines, tocPageCount, fonts);
+
+  const pages = binder.getPages();
+  const documentItem = (document: BinderDocument): OutlineItem => ({
+    title: document.file.name,
+    page: pages[document.firstPage + tocPageCount],
+  });
+  const outline: OutlineItem[] = [{ title: 'Table of Contents', page: tocPages[0] }];
+  if (master) {
+    for (const section of binderSections) {
+      outline.push({
+        title: section.label,
+        page: pages[section.documents[0].firstPage + tocPageCount],
+        children: section.documents.map(documentItem),
+      });
+    }
+  } else {
+    outline.push(...allDocuments.map(documentItem));
+  }
+  addOutline(binder, outline);
+
+  return binder.save();
+}
+
+/**
+ * Builds the binder PDFs as ZIP/folder entries under BINDERS/. Only assigned documents are
+ * bound, in schedule config order and then by output path, matching the 706/ folders.
+ */
+export async function buildBinderEntries(
+  files: ProcessedFile[],
+  schedules: ScheduleConfig['schedules'],
+  options: BinderOptions
+): Promise<ZipFileInput[]> {
+  const sections = collectSections(files, schedules);
+  if (sections.length === 0) return [];
+
+  if (options.scope === 'master') {
+    const bytes = await buildBinderPdf('Form 706 Exhibit Binder', sections, options, true);
+    return [{ path: 'BINDERS/706_Master_Binder.pdf', file: pdfBlob(bytes) }];
+  }
+
+  const entries: ZipFileInput[] = [];
+  for (const section of sections) {
+    const bytes = await buildBinderPdf(section.label, [section], options, false);
+    entries.push({
+      path: `BINDERS/${getScheduleFolder(section.scheduleId, schedules)}.pdf`,
+      file: pdfBlob(bytes),
+    });
+  }
+  return entries;
+}
@@ -1,12 +1,38 @@
-import { countTermOccurrences, normalizeText } from './normalize';
+import { MODEL_SCORE_SCALE, predictSchedule, type ModelBlend } from './localModel';
+import type { OcrSummary } from './ocr';
+import { findProximityOffsets, findTermOffsets, indexText, normalizeText, type IndexedText } from './normalize';
 import type { CompiledScheduleConfig } from './scheduleConfig';
-import type { ScheduleDefinition, ScheduleId } from './schedules';
+import type { FilenameRule, PathRule, ScheduleDefinition, ScheduleId } from './schedules';
 
 export const SCORE_FLOOR = 18;
 export const LOW_CONFIDENCE_MARGIN = 6;
+/**
+ * How far the content's own best schedule must lead the filename rule's schedule, on text
+ * alone, before the two are said to disagree and the file goes to review.
+ */
+export const FILENAME_CONFLICT_MARGIN = 18;
 
 export type ClassificationDecision = 'assigned' | 'review';
 
+export type MatchedTermKind = 'keyword' | 'smallTerm' | 'negativeTerm' | 'proximityTerm' | 'regexTerm';
+
+export interface MatchedTerm {
+  kind: MatchedTermKind;
+  /** The term, the regex pattern, or for proximity terms a description of the pair. */
+  term: string;
+  count: number;
+  /** The term's part of the schedule's score: its count times its weight. */
+  contribution: number;
+  /**
+   * Start and end (exclusive) offsets of each hit in the classified text. Left out of
+   * manifest.json, so missing on decisions reused from a previous run.
+   */
+  offsets?: [number, number][];
+}
+
+/** Matched terms of each schedule that has any, largest contribution first. */
+export type TermMatches = Partial<Record<ScheduleId, MatchedTerm[]>>;
+
 export interface ClassificationResult {
   decision: ClassificationDecision;
   schedule?: ScheduleId;
@@ -14,6 +40,11 @@ export interface ClassificationResult {
   reason: string;
   score: number;
   scores: Record<ScheduleId, number>;
+  /** Only when the text was scored. */
+  matches?: TermMatches;
+  /** The local model's schedule and its probability, when a model was given and knew the text. */
+  modelVote?: ScheduleId;
+  modelConfidence?: number;
 }
 
 export interface PdfScanMetrics {
@@ -22,57 +53,196 @@ export interface PdfScanMetrics {
   pagesSampled: number;
 }
 
+export type TextSource = 'embedded' | 'ocr';
+
 export interface ScannedDetectionThresholds {
   minChars: number;
   minTextItems: number;
 }
 
-export function applyFilenameRules(filename: string, config: CompiledScheduleConfig): ScheduleId | null {
-  for (const rule of config.filenameRules) {
-    if (rule.pattern.test(filename)) {
-      return rule.schedule;
+/** The first rule, in priority order, that matches the normalized filename. */
+export function applyFilenameRules(filename: string, config: CompiledScheduleConfig): FilenameRule | null {
+  return config.filenameRules.find((rule) => rule.pattern.test(filename)) ?? null;
+}
+
+// Regex terms are validated when the config is saved; compile each pattern once.
+const regexTermCache = new Map<string, RegExp>();
+
+function findRegexOffsets(text: string, pattern: string): [number, number][] {
+  let regex = regexTermCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, 'gi');
+    regexTermCache.set(pattern, regex);
+  }
+  // Zero-length matches are skipped: rules saved before validation rejected them would
+  // otherwise count one at every character.
+  return [...text.matchAll(regex)].flatMap((match) =>
+    match[0] ? [[match.index, match.index + match[0].length] as [number, number]] : []
+  );
+}
+
+export interface PathRuleMatch {
+  rule: PathRule;
+  /** The folder name the rule matched. */
+  folder: string;
+}
+
+/**
+ * Path rules that match a folder of `relativePath` (every segment but the filename), each with
+ * the nearest matching folder, in rule order.
+ */
+export function matchPathRules(relativePath: string, config: CompiledScheduleConfig): PathRuleMatch[] {
+  const folders = relativePath.split('/').slice(0, -1).reverse();
+  const matches: PathRuleMatch[] = [];
+  for (const rule of config.pathRules) {
+    const folder = folders.find((segment) => rule.pattern.test(normalizeText(segment)));
+    if (folder !== undefined) {
+      matches.push({ rule, folder });
     }
   }
-  return null;
+  return matches;
+}
+
+function describePathMatches(matches: PathRuleMatch[]): string {
+  return `path_rule: ${[...new Set(matches.map((match) => match.folder))].join(', ')}`;
 }
 
-function scoreSchedule(text: string, schedule: ScheduleDefinition): number {
-  let score = 0;
-  for (const keyword of schedule.keywords) {
-    score += countTermOccurrences(text, keyword.term) * keyword.weight;
+function scoreSchedule(
+  text: string,
+  indexed: IndexedText,
+  schedule: ScheduleDefinition
+): { score: number; terms: MatchedTerm[] } {
+  if (schedule.requiredTerms?.some((term) => findTermOffsets(indexed, term).length === 0)) {
+    return { score: 0, terms: [] };
+  }
+  const terms: MatchedTerm[] = [];
+  const add = (kind: MatchedTermKind, term: string, weight: number, offsets: [number, number][]) => {
+    if (offsets.length > 0) {
+      terms.push({ kind, term, count: offsets.length, contribution: offsets.length * weight, offsets });
+    }
+  };
+  for (const term of schedule.keywords) {
+    add('keyword', term.term, term.weight, findTermOffsets(indexed, term.term));
   }
   for (const term of schedule.smallTerms) {
-    score += countTermOccurrences(text, term.term) * term.weight;
+    add('smallTerm', term.term, term.weight, findTermOffsets(indexed, term.term));
+  }
+  for (const term of schedule.negativeTerms ?? []) {
+    add('negativeTerm', term.term, term.weight, findTermOffsets(indexed, term.term));
+  }
+  for (const term of schedule.proximityTerms ?? []) {
+    const [first, second] = term.terms;
+    add(
+      'proximityTerm',
+      `${first} within ${term.within} words of ${second}`,
+      term.weight,
+      findProximityOffsets(indexed, first, second, term.within)
+    );
+  }
+  for (const term of schedule.regexTerms ?? []) {
+    add('regexTerm', term.pattern, term.weight, findRegexOffsets(text, term.pattern));
+  }
+  terms.sort((a, b) => b.contribution - a.contribution);
+  const score = terms.reduce((sum, term) => sum + term.contribution, 0);
+  // Negative terms can only take a schedule out of the running, not below an unrelated one.
+  return { score: Math.max(0, score), terms };
+}
+
+function scoreText(
+  text: string,
+  config: CompiledScheduleConfig
+): { scores: Record<ScheduleId, number>; matches: TermMatches } {
+  const indexed = indexText(text);
+  const scores = {} as Record<ScheduleId, number>;
+  const matches: TermMatches = {};
+  for (const schedule of config.schedules) {
+    const { score, terms } = scoreSchedule(text, indexed, schedule);
+    scores[schedule.id] = score;
+    if (terms.length > 0) matches[schedule.id] = terms;
   }
-  return score;
+  return { scores, matches };
+}
+
+// The schedule the text alone points to, when it is confident and leads the filename rule's
+// schedule by FILENAME_CONFLICT_MARGIN; null when filename and content agree well enough.
+function findFilenameConflict(rule: FilenameRule, textScores: Record<ScheduleId, number>): ScheduleId | null {
+  const [contentId, contentScore] = Object.entries(textScores).sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (contentId === undefined || contentId === rule.schedule || contentScore < SCORE_FLOOR) return null;
+  return contentScore - (textScores[rule.schedule] ?? 0) >= FILENAME_CONFLICT_MARGIN ? contentId : null;
 }
 
 export function classifyDocument(options: {
   filename: string;
+  /** Path from the selected folder, ending in the filename; its folders are matched by path rules. */
+  relativePath?: string;
   text: string;
   isPdf: boolean;
   config: CompiledScheduleConfig;
   pdfMetrics?: PdfScanMetrics;
   scannedThresholds: ScannedDetectionThresholds;
+  textSource?: TextSource;
+  /** Blends the local model's probabilities into the keyword scores. */
+  model?: ModelBlend;
 }): ClassificationResult {
+  const fromOcr = options.textSource === 'ocr';
   const normalizedFilename = normalizeText(options.filename);
   const filenameMatch = applyFilenameRules(normalizedFilename, options.config);
+  // Scored up front for the conflict check; the matches explain the result whatever decides it.
+  const scored = options.text.trim() ? scoreText(options.text, options.config) : null;
+  const textScores = scored?.scores ?? null;
+  const matches = scored?.matches;
+  const prediction = scored && options.model ? predictSchedule(options.model.model, options.text) : null;
+  // Reported wherever the text was scored, whether or not the blend decides the file.
+  const vote = prediction ? { modelVote: prediction.vote, modelConfidence: prediction.confidence } : {};
   const scores = {} as Record<ScheduleId, number>;
 
-  if (filenameMatch) {
+  const conflict = filenameMatch && textScores ? findFilenameConflict(filenameMatch, textScores) : null;
+  if (filenameMatch && textScores && conflict) {
+    return {
+      decision: 'review',
+      candidate: conflict,
+      reason: `filename_content_conflict: filename ${filenameMatch.schedule}, content ${conflict}`,
+      score: textScores[conflict],
+      scores: textScores,
+      matches,
+      ...vote,
+    };
+  }
+
+  if (filenameMatch?.mode === 'assign') {
     for (const schedule of options.config.schedules) {
-      scores[schedule.id] = schedule.id === filenameMatch ? SCORE_FLOOR : 0;
+      scores[schedule.id] = schedule.id === filenameMatch.schedule ? SCORE_FLOOR : 0;
     }
     return {
       decision: 'assigned',
-      schedule: filenameMatch,
+      schedule: filenameMatch.schedule,
       reason: 'filename_rule',
       score: SCORE_FLOOR,
       scores,
+      matches,
+      ...vote,
     };
   }
 
-  if (options.isPdf && options.pdfMetrics && options.pdfMetrics.pagesSampled > 0) {
+  const pathMatches = options.relativePath ? matchPathRules(options.relativePath, options.config) : [];
+  const pathAssign = pathMatches.find((match) => match.rule.mode === 'assign');
+  if (pathAssign) {
+    for (const schedule of options.config.schedules) {
+      scores[schedule.id] = schedule.id === pathAssign.rule.schedule ? SCORE_FLOOR : 0;
+    }
+    return {
+      decision: 'assigned',
+      schedule: pathAssign.rule.schedule,
+      reason: describePathMatches([pathAssign]),
+      score: SCORE_FLOOR,
+      scores,
+      matches,
+      ...vote,
+    };
+  }
+
+  // OCR text replaces a missing text layer, so the scanned-PDF check no longer applies.
+  if (!fromOcr && options.isPdf && options.pdfMetrics && options.pdfMetrics.pagesSampled > 0) {
     const lowChars = options.pdfMetrics.chars < options.scannedThresholds.minChars;
     const lowItems = options.pdfMetrics.textItems < options.scannedThresholds.minTextItems;
     if (lowChars || lowItems) {
@@ -85,26 +255,45 @@ export function classifyDocument(options: {
         reason: `likely_scanned_pdf: low_text_layer (chars=${options.pdfMetrics.chars}, textItems=${options.pdfMetrics.textItems}, sampled=${options.pdfMetrics.pagesSampled})`,
         score: 0,
         scores,
+        matches,
+        ...vote,
       };
     }
   }
 
-  if (!options.text.trim()) {
+  if (!textScores) {
     for (const schedule of options.config.schedules) {
       scores[schedule.id] = 0;
     }
     return {
       decision: 'review',
       candidate: 'Unknown',
-      reason: 'no_text_or_filename_rule',
+      reason: fromOcr ? 'ocr_no_text' : 'no_text_or_filename_rule',
       score: 0,
       scores,
     };
   }
 
-  for (const schedule of options.config.schedules) {
-    scores[schedule.id] = scoreSchedule(options.text, schedule);
+  Object.assign(scores, textScores);
+  if (prediction && options.model) {
+    const { weight } = options.model;
+    for (const schedule of Object.keys(scores)) {
+      const probability = prediction.probabilities[schedule] ?? 0;
+      scores[schedule] = Math.round((1 - weight) * scores[schedule] + weight * probability * MODEL_SCORE_SCALE);
+    }
+  }
+  const boosts = pathMatches.filter((match) => match.rule.mode === 'boost' && match.rule.schedule in scores);
+  for (const { rule } of boosts) {
+    scores[rule.schedule] += rule.weight;
+  }
+  const filenameBoost = filenameMatch && filenameMatch.schedule in scores ? filenameMatch : null;
+  if (filenameBoost) {
+    scores[filenameBoost.schedule] += filenameBoost.weight;
   }
+  const ruleReason =
+    (prediction ? '; local_model' : '') +
+    (filenameBoost ? '; filename_rule' : '') +
+    (boosts.length > 0 ? `; ${describePathMatches(boosts)}` : '');
 
   const sorted = Object.entries(scores).sort((a, b) => b[1] - a[1]);
   const [bestScheduleId, bestScore] = sorted[0] as [ScheduleId, number];
@@ -115,17 +304,33 @@ export function classifyDocument(options: {
     return {
       decision: 'review',
       candidate: bestScheduleId ?? 'Unknown',
-      reason: 'low_confidence',
+      reason: `low_confidence${ruleReason}`,
       score: bestScore,
       scores,
+      matches,
+      ...vote,
     };
   }
 
   return {
     decision: 'assigned',
     schedule: bestScheduleId,
-    reason: 'keyword_score',
+    reason: `keyword_score${ruleReason}`,
     score: bestScore,
     scores,
+    matches,
+    ...vote,
   };
 }
+
+/**
+ * Notes in the reason when OCR read only the first pages of a long scan, so the file was
+ * classified on part of its text.
+ */
+export function withOcrPageCap(
+  result: ClassificationResult,
+  ocr: Pick<OcrSummary, 'pages' | 'totalPages'> | undefined
+): ClassificationResult {
+  if (!ocr?.totalPages || ocr.totalPages <= ocr.pages.length) return result;
+  return { ...result, reason: `${result.reason}; ocr_pages: ${ocr.pages.length} of ${ocr.totalPages}` };
+}
@@ -0,0 +1,45 @@
+export async function runWithConcurrency<TItem, TResult>(
+  items: TItem[],
+  concurrency: number,
+  worker: (item: TItem, index: number) => Promise<TResult>,
+  isAborted: () => boolean
+): Promise<TResult[]> {
+  const results: TResult[] = [];
+  let currentIndex = 0;
+  let active = 0;
+
+  return new Promise((resolve) => {
+    const scheduleNext = () => {
+      if (isAborted() && active === 0) {
+        resolve(results);
+        return;
+      }
+
+      while (!isAborted() && active < concurrency && currentIndex < items.length) {
+        const index = currentIndex;
+        const item = items[index];
+        currentIndex += 1;
+        active += 1;
+
+        worker(item, index)
+          .then((result) => {
+            results.push(result);
+          })
+          .finally(() => {
+            active -= 1;
+            if (currentIndex >= items.length && active === 0) {
+              resolve(results);
+            } else {
+              scheduleNext();
+            }
+          });
+      }
+
+      if (currentIndex >= items.length && active === 0) {
+        resolve(results);
+      }
+    };
+
+    scheduleNext();
+  });
+}
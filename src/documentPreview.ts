@@ -0,0 +1,109 @@
+// src/documentPreview.ts
+// Page-by-page rendering of a source document into a canvas for the review queue: PDFs through
+// pdf.js, and TIFFs, which browsers cannot decode, through UTIF. PNG and JPEG are left to <img>.
+
+import UTIF from 'utif';
+// pdf.js' own worker is configured once in pdfWorker.ts.
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+const PDF_RENDER_SCALE = 1.5;
+
+export interface PreviewDocument {
+  pageCount: number;
+  /** Draws page `pageNumber` (1-based) into `canvas`, replacing any render still in progress. */
+  renderPage(pageNumber: number, canvas: HTMLCanvasElement): Promise<void>;
+  destroy(): void;
+}
+
+interface PdfViewport {
+  width: number;
+  height: number;
+}
+
+interface PdfRenderTask {
+  promise: Promise<void>;
+  cancel(): void;
+}
+
+interface PdfPageProxy {
+  getViewport(params: { scale: number }): PdfViewport;
+  render(params: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): PdfRenderTask;
+}
+
+interface PdfDocumentProxy {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPageProxy>;
+  destroy(): Promise<void>;
+}
+
+function isPdfPreview(name: string): boolean {
+  return name.toLowerCase().endsWith('.pdf');
+}
+
+function isTiffPreview(name: string): boolean {
+  return /\.tiff?$/i.test(name);
+}
+
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable for preview rendering');
+  }
+  return context;
+}
+
+async function openPdf(file: Blob): Promise<PreviewDocument> {
+  // pdf.js detaches the buffer it is given, so always read a fresh copy.
+  const pdf = (await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise) as PdfDocumentProxy;
+  let current: PdfRenderTask | null = null;
+  return {
+    pageCount: pdf.numPages || 0,
+    async renderPage(pageNumber, canvas) {
+      current?.cancel();
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const task = page.render({ canvasContext: getContext(canvas), viewport });
+      current = task;
+      try {
+        await task.promise;
+      } catch (error) {
+        // A newer page replaced this one before it finished.
+        if ((error as { name?: string }).name !== 'RenderingCancelledException') throw error;
+      } finally {
+        if (current === task) current = null;
+      }
+    },
+    destroy() {
+      current?.cancel();
+      void pdf.destroy();
+    },
+  };
+}
+
+async function openTiff(file: Blob): Promise<PreviewDocument> {
+  const buffer = await file.arrayBuffer();
+  const frames = UTIF.decode(buffer).filter((frame) => {
+    UTIF.decodeImage(buffer, frame);
+    return Boolean(frame.width && frame.height);
+  });
+  return {
+    pageCount: frames.length,
+    async renderPage(pageNumber, canvas) {
+      const frame = frames[pageNumber - 1];
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+      const image = new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(frame)), frame.width, frame.height);
+      getContext(canvas).putImageData(image, 0, 0);
+    },
+    destroy() {},
+  };
+}
+
+/** A paged preview of a PDF or TIFF; null for other files, which render natively. */
+export async function openPreviewDocument(file: File): Promise<PreviewDocument | null> {
+  if (isPdfPreview(file.name)) return openPdf(file);
+  if (isTiffPreview(file.name)) return openTiff(file);
+  return null;
+}
@@ -0,0 +1,572 @@
+// src/engine.ts
+// UI-independent sorting pipeline: SelectedFile[] in, ProcessedFile[] (with output paths) out.
+// Used by the React app and the CLI; neither touches hashing, duplicate detection,
+// overrides or classification directly.
+
+import {
+  classifyDocument,
+  SCORE_FLOOR,
+  withOcrPageCap,
+  type ClassificationResult,
+  type ScannedDetectionThresholds,
+  type TextSource,
+} from './classify';
+import { runWithConcurrency } from './concurrency';
+import { extractFields } from './extract';
+import { textFingerprint, type DocumentFingerprint } from './fingerprint';
+import { getHashPrefix, hashBlob } from './hash';
+import type { ModelBlend } from './localModel';
+// Type-only: ocr.ts pulls in Vite asset URLs and is supplied by the browser through `runOcr`.
+import type { OcrResult, OcrSummary } from './ocr';
+import { findNearDuplicates, type NearDuplicateDecision, type NearDuplicatePair } from './nearDuplicates';
+import { extractPdfText, type PdfTextResult } from './pdfText';
+import {
+  findClassifiedEntry,
+  findReusableEntry,
+  groupPriorFilesByHash,
+  type ManifestFile,
+  type PriorRun,
+} from './priorRun';
+import { assignOutputPaths, type PdfMetrics, type ProcessedFile } from './reports';
+import { findSchedule, type CompiledScheduleConfig } from './scheduleConfig';
+import type { ScheduleId } from './schedules';
+
+/**
+ * Hashing and PDF text extraction, the expensive per-file steps. The browser passes a
+ * Web Worker pool (workerPool.ts); the CLI and tests use the in-process default.
+ */
+export interface FileProcessor {
+  hash(file: File, signal?: AbortSignal): Promise<string>;
+  extractPdfText(file: File, signal?: AbortSignal): Promise<PdfTextResult>;
+}
+
+export interface SelectedFile {
+  file: File;
+  relativePath: string;
+}
+
+export interface SortEngineInput {
+  files: SelectedFile[];
+  config: CompiledScheduleConfig;
+  reviewOverrides: Record<string, ScheduleId>;
+  scanThresholds: ScannedDetectionThresholds;
+  concurrency: number;
+  /** PDFs larger than this are hashed but not parsed, and go to review as `file_too_large`. */
+  maxPdfParseBytes?: number;
+  processor?: FileProcessor;
+  /** OCR hook; when absent, scanned PDFs and images are left for review. */
+  runOcr?: (file: File, isPdf: boolean) => Promise<OcrResult>;
+  /** Image dHash hook (imageFingerprint.ts); without it only text is fingerprinted. */
+  fingerprintImage?: (file: File) => Promise<string | undefined>;
+  /** Similarity threshold and saved reviewer decisions; confirmed pairs become duplicates. */
+  nearDuplicates?: { threshold: number; decisions: Record<string, NearDuplicateDecision> };
+  /**
+   * A previous run's manifest. Files whose hash it already classified keep that decision
+   * (and, where it still fits, their output path) instead of being parsed again.
+   */
+  priorRun?: PriorRun;
+  /** The workspace's local model and its share of the scores, when it is enabled. */
+  model?: ModelBlend;
+}
+
+export type SortPhase = 'hashing' | 'classifying';
+
+export interface SortProgress {
+  phase: SortPhase;
+  done: number;
+  total: number;
+  currentPath?: string;
+}
+
+export interface SortEngineHooks {
+  signal?: AbortSignal;
+  onProgress?: (progress: SortProgress) => void;
+  onLog?: (message: string) => void;
+}
+
+export interface SortEngineResult {
+  /** Processed files in input order, with output paths assigned. */
+  files: ProcessedFile[];
+  /** Source relative paths per hash prefix, for STATE/_source_paths/. */
+  sourcePaths: Record<string, string[]>;
+  aborted: boolean;
+}
+
+export const ACCEPTED_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.tiff', '.tif'];
+
+export function shouldIncludeFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+const inProcessFileProcessor: FileProcessor = {
+  hash: (file) => hashBlob(file),
+  extractPdfText: async (file) => extractPdfText(await file.arrayBuffer()),
+};
+
+function isPdfFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.pdf');
+}
+
+function summarizeOcr(result: OcrResult): OcrSummary {
+  const total = result.pages.reduce((sum, page) => sum + page.confidence, 0);
+  return {
+    averageConfidence: result.pages.length > 0 ? Math.round(total / result.pages.length) : 0,
+    pages: result.pages,
+    totalPages: result.totalPages,
+  };
+}
+
+// The text is kept once, as ProcessedFile.text.
+function toPdfMetrics({ text, ...metrics }: PdfTextResult): PdfMetrics {
+  return metrics;
+}
+
+// Scanned PDFs and images have no text until OCR runs. Images are read even when a filename or
+// path rule placed them, for their inventory fields and text fingerprint.
+function needsOcr(classification: ClassificationResult, pdf: boolean): boolean {
+  return !pdf || classification.reason.startsWith('likely_scanned_pdf');
+}
+
+function overrideScores(scheduleId: ScheduleId, config: CompiledScheduleConfig): Record<ScheduleId, number> {
+  const scores = {} as Record<ScheduleId, number>;
+  for (const schedule of config.schedules) {
+    scores[schedule.id] = schedule.id === scheduleId ? SCORE_FLOOR : 0;
+  }
+  return scores;
+}
+
+function baseEntry(item: SelectedFile, hash: string): Omit<ProcessedFile, 'decision' | 'reason' | 'score' | 'scores'> {
+  return {
+    file: item.file,
+    name: item.file.name,
+    relativePath: item.relativePath,
+    size: item.file.size,
+    type: item.file.type,
+    hash,
+    hashPrefix: getHashPrefix(hash),
+    outputPath: '',
+  };
+}
+
+interface FileContext {
+  processor: FileProcessor;
+  signal?: AbortSignal;
+  log: (message: string) => void;
+  priorByHash: Map<string, ManifestFile[]>;
+}
+
+function reusedEntry(item: SelectedFile, hash: string, prior: ManifestFile): ProcessedFile {
+  const { name, relativePath, size, type, hashPrefix, outputPath, priorOutputPath, ...decision } = prior;
+  return { ...decision, ...baseEntry(item, hash), fromPriorRun: true };
+}
+
+async function classifySelectedFile(
+  item: SelectedFile,
+  hash: string,
+  input: SortEngineInput,
+  { processor, signal, log, priorByHash }: FileContext
+): Promise<ProcessedFile> {
+  const { config, reviewOverrides, scanThresholds, runOcr } = input;
+
+  // Overrides saved against a schedule that has since been removed from the config are ignored.
+  const overrideSchedule = reviewOverrides[hash];
+  if (overrideSchedule && findSchedule(overrideSchedule, config.schedules)) {
+    log(`Applied override for ${item.relativePath} → ${overrideSchedule}`);
+    return {
+      ...baseEntry(item, hash),
+      decision: 'assigned',
+      schedule: overrideSchedule,
+      reason: 'review_override',
+      score: SCORE_FLOOR,
+      scores: overrideScores(overrideSchedule, config),
+      overrideApplied: true,
+    };
+  }
+
+  const prior = findReusableEntry(priorByHash.get(hash), item.relativePath);
+  if (prior) {
+    log(`Reused earlier decision for ${item.relativePath} (${prior.reason})`);
+    return reusedEntry(item, hash, prior);
+  }
+
+  let text = '';
+  let pdfMetrics: PdfTextResult | undefined;
+  const pdf = isPdfFile(item.file.name);
+  if (pdf && input.maxPdfParseBytes !== undefined && item.file.size > input.maxPdfParseBytes) {
+    log(`Not parsing ${item.relativePath}: ${item.file.size} bytes is over the ${input.maxPdfParseBytes}-byte limit`);
+    return {
+      ...baseEntry(item, hash),
+      decision: 'review',
+      candidate: 'Unknown',
+      reason: 'file_too_large',
+      score: 0,
+      scores: {} as Record<ScheduleId, number>,
+    };
+  }
+  if (pdf) {
+    try {
+      pdfMetrics = await processor.extractPdfText(item.file, signal);
+      text = pdfMetrics.text;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      log(`PDF parse error for ${item.relativePath}: ${String(error)}`);
+      return {
+        ...baseEntry(item, hash),
+        decision: 'review',
+        candidate: 'Unknown',
+        reason: `pdf_parse_error: ${String(error)}`,
+        score: 0,
+        scores: {} as Record<ScheduleId, number>,
+      };
+    }
+  }
+
+  let classification = classifyDocument({
+    filename: item.file.name,
+    relativePath: item.relativePath,
+    text,
+    isPdf: pdf,
+    config,
+    pdfMetrics,
+    scannedThresholds: scanThresholds,
+    model: input.model,
+  });
+
+  let textSource: TextSource | undefined = pdf ? 'embedded' : undefined;
+  let ocr: OcrResult | undefined;
+  if (runOcr && needsOcr(classification, pdf)) {
+    log(`Running OCR for ${item.relativePath}`);
+    try {
+      ocr = await runOcr(item.file, pdf);
+      text = ocr.text;
+      textSource = 'ocr';
+      classification = withOcrPageCap(
+        classifyDocument({
+          filename: item.file.name,
+          relativePath: item.relativePath,
+          text,
+          isPdf: pdf,
+          config,
+          pdfMetrics,
+          scannedThresholds: scanThresholds,
+          textSource,
+          model: input.model,
+        }),
+        ocr
+      );
+    } catch (error) {
+      // A file the rules already placed keeps its placement; the error is noted after its reason.
+      const reason =
+        classification.decision === 'review'
+          ? `ocr_error: ${String(error)}`
+          : `${classification.reason}; ocr_error: ${String(error)}`;
+      classification = { ...classification, reason };
+      log(`OCR error for ${item.relativePath}: ${String(error)}`);
+    }
+  }
+
+  const fingerprint: DocumentFingerprint = { text: textFingerprint(text) };
+  if (!pdf && input.fingerprintImage) {
+    try {
+      fingerprint.image = await input.fingerprintImage(item.file);
+    } catch (error) {
+      log(`Image fingerprint error for ${item.relativePath}: ${String(error)}`);
+    }
+  }
+
+  const pageOffsets = textSource === 'ocr' ? ocr?.pageOffsets : pdfMetrics?.pageOffsets;
+  log(`Finished ${item.relativePath} (${classification.reason})`);
+  return {
+    ...baseEntry(item, hash),
+    decision: classification.decision,
+    schedule: classification.schedule,
+    candidate: classification.candidate,
+    reason: classification.reason,
+    score: classification.score,
+    scores: classification.scores,
+    matches: classification.matches,
+    modelVote: classification.modelVote,
+    modelConfidence: classification.modelConfidence,
+    text,
+    pdfMetrics: pdfMetrics ? toPdfMetrics(pdfMetrics) : undefined,
+    textSource,
+    ocr: ocr ? summarizeOcr(ocr) : undefined,
+    textSample: classification.decision === 'review' ? text.slice(0, 200) : undefined,
+    fields: text.trim() ? extractFields(text, pageOffsets) : undefined,
+    fingerprint: fingerprint.text || fingerprint.image ? fingerprint : undefined,
+  };
+}
+
+// The previous path of the same copy, or for a moved or renamed file, of the copy it replaces.
+function withPriorOutputPath(file: ProcessedFile, priorByHash: Map<string, ManifestFile[]>): ProcessedFile {
+  const group = priorByHash.get(file.hash);
+  if (!group) return file;
+  const prior =
+    group.find((entry) => entry.relativePath === file.relativePath) ??
+    (file.reason === 'sha256_duplicate' ? undefined : findClassifiedEntry(group));
+  return prior ? { ...file, priorOutputPath: prior.outputPath } : file;
+}
+
+function processingErrorEntry(item: SelectedFile, index: number, error: unknown): ProcessedFile {
+  return {
+    ...baseEntry(item, `error-${index}`),
+    decision: 'review',
+    candidate: 'Unknown',
+    reason: `processing_error: ${String(error)}`,
+    score: 0,
+    scores: {} as Record<ScheduleId, number>,
+  };
+}
+
+function duplicateEntry(item: SelectedFile, kept: ProcessedFile): ProcessedFile {
+  return {
+    ...baseEntry(item, kept.hash),
+    decision: 'duplicate',
+    schedule: kept.schedule,
+    candidate: kept.candidate,
+    reason: 'sha256_duplicate',
+    score: kept.score,
+    scores: kept.scores,
+    matches: kept.matches,
+    modelVote: kept.modelVote,
+    modelConfidence: kept.modelConfidence,
+  };
+}
+
+/**
+ * Hashes every file, then classifies one file per distinct hash. Within a set of identical
+ * files the one with the first relative path (the one `buildDuplicatesGroups` reports as
+ * kept) is classified and the rest become duplicates of it, regardless of concurrency.
+ * Aborting `hooks.signal` also cancels in-flight processor jobs; files cut off that way
+ * are left out of the result, like files that were never started.
+ */
+export async function runSortEngine(input: SortEngineInput, hooks: SortEngineHooks = {}): Promise<SortEngineResult> {
+  const { files, concurrency } = input;
+  const log = hooks.onLog ?? (() => undefined);
+  const isAborted = () => hooks.signal?.aborted ?? false;
+  const context: FileContext = {
+    processor: input.processor ?? inProcessFileProcessor,
+    signal: hooks.signal,
+    log,
+    priorByHash: input.priorRun ? groupPriorFilesByHash(input.priorRun) : new Map(),
+  };
+  const total = files.length;
+
+  const hashes: Array<string | undefined> = new Array(total);
+  const results: Array<ProcessedFile | undefined> = new Array(total);
+  let hashed = 0;
+
+  await runWithConcurrency(
+    files,
+    concurrency,
+    async (item, index) => {
+      hooks.onProgress?.({ phase: 'hashing', done: hashed, total, currentPath: item.relativePath });
+      try {
+        hashes[index] = await context.processor.hash(item.file, hooks.signal);
+      } catch (error) {
+        // Cancelled mid-job: the file is left out of the results, like files never started.
+        if (isAborted()) return;
+        log(`Processing error for ${item.relativePath}: ${String(error)}`);
+        results[index] = processingErrorEntry(item, index, error);
+      }
+      hashed += 1;
+      hooks.onProgress?.({ phase: 'hashing', done: hashed, total });
+    },
+    isAborted
+  );
+
+  const groups = new Map<string, number[]>();
+  for (const [index, hash] of hashes.entries()) {
+    if (hash === undefined) continue;
+    const group = groups.get(hash) ?? [];
+    group.push(index);
+    groups.set(hash, group);
+  }
+  const keptIndexes: number[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => files[a].relativePath.localeCompare(files[b].relativePath));
+    keptIndexes.push(group[0]);
+  }
+  keptIndexes.sort((a, b) => a - b);
+
+  // Files that failed to hash already have their error entry.
+  let classified = results.filter(Boolean).length;
+  const reportClassified = (currentPath?: string) =>
+    hooks.onProgress?.({ phase: 'classifying', done: classified, total, currentPath });
+
+  await runWithConcurrency(
+    keptIndexes,
+    concurrency,
+    async (keptIndex) => {
+      const item = files[keptIndex];
+      const hash = hashes[keptIndex] as string;
+      reportClassified(item.relativePath);
+      let kept: ProcessedFile;
+      try {
+        kept = await classifySelectedFile(item, hash, input, context);
+      } catch (error) {
+        if (isAborted()) return;
+        log(`Processing error for ${item.relativePath}: ${String(error)}`);
+        kept = processingErrorEntry(item, keptIndex, error);
+      }
+      results[keptIndex] = kept;
+      for (const duplicateIndex of (groups.get(hash) ?? []).slice(1)) {
+        results[duplicateIndex] = duplicateEntry(files[duplicateIndex], kept);
+        log(`Duplicate detected for ${files[duplicateIndex].relativePath}`);
+      }
+      classified += groups.get(hash)?.length ?? 1;
+      reportClassified();
+    },
+    isAborted
+  );
+
+  const sourcePaths: Record<string, string[]> = {};
+  let processed: ProcessedFile[] = [];
+  for (const result of results) {
+    if (!result) continue;
+    const entry = withPriorOutputPath(result, context.priorByHash);
+    processed.push(entry);
+    (sourcePaths[entry.hashPrefix] ??= []).push(entry.relativePath);
+  }
+
+  if (input.nearDuplicates) {
+    const { threshold, decisions } = input.nearDuplicates;
+    for (const pair of findNearDuplicates(processed, threshold)) {
+      if (decisions[pair.key] !== 'confirmed') continue;
+      log(`Confirmed near duplicate ${pair.duplicate.relativePath} of ${pair.kept.relativePath}`);
+      processed = withNearDuplicateDecision(processed, pair, 'confirmed');
+    }
+  }
+
+  return {
+    files: assignOutputPaths(processed, input.config.schedules),
+    sourcePaths,
+    aborted: isAborted(),
+  };
+}
+
+function withOverride(file: ProcessedFile, scheduleId: ScheduleId | 'clear'): ProcessedFile {
+  if (scheduleId === 'clear') {
+    if (!file.overrideApplied) return file;
+    const { preOverride, ...rest } = file;
+    if (preOverride) {
+      return { ...rest, ...preOverride, overrideApplied: false };
+    }
+    return {
+      ...rest,
+      decision: 'review',
+      schedule: undefined,
+      candidate: 'Unknown',
+      reason: 'override_cleared',
+      score: 0,
+      overrideApplied: false,
+    };
+  }
+
+  const preOverride =
+    file.preOverride ??
+    (file.overrideApplied
+      ? undefined
+      : {
+          decision: file.decision,
+          schedule: file.schedule,
+          candidate: file.candidate,
+          reason: file.reason,
+          score: file.score,
+        });
+  return {
+    ...file,
+    preOverride,
+    decision: 'assigned',
+    schedule: scheduleId,
+    candidate: undefined,
+    reason: 'review_override',
+    score: SCORE_FLOOR,
+    overrideApplied: true,
+  };
+}
+
+/**
+ * Applies or clears a reviewer override for the file with `hash`. Clearing restores the
+ * decision the file had before the override, or sends it back to review if the override
+ * was applied at sort time. Duplicates of that hash stay duplicates and follow its schedule.
+ */
+export function applyReviewOverride(
+  files: ProcessedFile[],
+  hash: string,
+  scheduleId: ScheduleId | 'clear',
+  config: CompiledScheduleConfig
+): ProcessedFile[] {
+  return applyReviewOverrides(files, { [hash]: scheduleId }, config);
+}
+
+/** `applyReviewOverride` for several hashes at once, as bulk review actions and undo need. */
+export function applyReviewOverrides(
+  files: ProcessedFile[],
+  changes: Record<string, ScheduleId | 'clear'>,
+  config: CompiledScheduleConfig
+): ProcessedFile[] {
+  const kept = new Map<string, { file: ProcessedFile; updated: ProcessedFile }>();
+  for (const file of files) {
+    const change = changes[file.hash];
+    if (change && file.decision !== 'duplicate' && !kept.has(file.hash)) {
+      kept.set(file.hash, { file, updated: withOverride(file, change) });
+    }
+  }
+  if (kept.size === 0) return files;
+
+  const updated = files.map((file): ProcessedFile => {
+    const entry = kept.get(file.hash);
+    if (!entry) return file;
+    if (entry.file === file) return entry.updated;
+    return { ...file, schedule: entry.updated.schedule, candidate: entry.updated.candidate };
+  });
+  return assignOutputPaths(updated, config.schedules);
+}
+
+function withNearDuplicateDecision(
+  files: ProcessedFile[],
+  pair: NearDuplicatePair,
+  decision: NearDuplicateDecision | 'clear'
+): ProcessedFile[] {
+  const kept = files.find((file) => file.hash === pair.kept.hash && file.reason !== 'sha256_duplicate');
+  return files.map((file): ProcessedFile => {
+    if (file.hash !== pair.duplicate.hash || file.reason === 'sha256_duplicate') return file;
+    if (decision !== 'confirmed') {
+      if (!file.nearDuplicateOf) return file;
+      const { preNearDuplicate, nearDuplicateOf, ...rest } = file;
+      return { ...rest, ...preNearDuplicate };
+    }
+    if (file.nearDuplicateOf || !kept) return file;
+    return {
+      ...file,
+      preNearDuplicate: {
+        decision: file.decision,
+        schedule: file.schedule,
+        candidate: file.candidate,
+        reason: file.reason,
+        score: file.score,
+      },
+      nearDuplicateOf: kept.hash,
+      decision: 'duplicate',
+      schedule: kept.schedule,
+      candidate: kept.candidate,
+      reason: 'near_duplicate',
+    };
+  });
+}
+
+/**
+ * Records a reviewer's decision on a probable duplicate pair. Confirming turns the later
+ * file into a duplicate of the kept one (exported under DUPLICATES/); rejecting or
+ * clearing restores the classification it had before it was confirmed.
+ */
+export function applyNearDuplicateDecision(
+  files: ProcessedFile[],
+  pair: NearDuplicatePair,
+  decision: NearDuplicateDecision | 'clear',
+  config: CompiledScheduleConfig
+): ProcessedFile[] {
+  return assignOutputPaths(withNearDuplicateDecision(files, pair, decision), config.schedules);
+}
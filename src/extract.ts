@@ -0,0 +1,199 @@
+// src/extract.ts
+// Pull inventory fields out of document text: dollar amounts, account numbers and statement
+// dates. Each value carries the page it came from and a 0–1 confidence, which is higher
+// when a label such as "balance" or "account number" sits right before it.
+
+export interface ExtractedField<T> {
+  value: T;
+  /** The text as it appeared in the document. */
+  raw: string;
+  /** 1-based page number within the sampled pages. */
+  page: number;
+  confidence: number;
+}
+
+/** Inclusive range of ISO dates, e.g. "Statement period 03/01/2024 - 03/31/2024". */
+export interface StatementPeriod {
+  start: string;
+  end: string;
+}
+
+export interface ExtractedFields {
+  amounts: ExtractedField<number>[];
+  accountNumbers: ExtractedField<string>[];
+  /** ISO dates (YYYY-MM-DD). */
+  statementDates: ExtractedField<string>[];
+  statementPeriods: ExtractedField<StatementPeriod>[];
+}
+
+const MAX_FIELDS_PER_KIND = 10;
+const LABEL_WINDOW = 40;
+
+const AMOUNT_LABEL = /\b(balance|total|value|amount|due|proceeds|benefit|price|payment)\b/i;
+const PERIOD_LABEL = /\b(period|statement|for|from|covering)\b/i;
+const PERIOD_SEPARATOR = /^\s*(?:-|–|—|to|through|thru)\s*$/i;
+const DATE_LABEL = /\b(statement date|as of|closing date|period ending|ending|through|statement period|date of death)\b/i;
+
+const DOLLAR_AMOUNT = /(?:\$|\bUSD\s?)\s?(\d{1,3}(?:,\d{3})+|\d+)(\.\d{2})?\b/g;
+const LABELLED_AMOUNT =
+  /\b(?:balance|total|value|amount)\b[^\d$\n]{0,25}?(\d{1,3}(?:,\d{3})+\.\d{2}|\d+\.\d{2})\b/gi;
+const ACCOUNT_NUMBER =
+  /\b(?:account|acct|policy|loan|contract|certificate)\.?\s*(?:number|num|no\.?|#)?\s*[:#]?\s*((?:[xX*•]+[- ]?)?[A-Z0-9][A-Z0-9-]{3,})/gi;
+const ACCOUNT_ENDING = /\bending\s+(?:in\s+)?(\d{4})\b(?![-/])/gi;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const LONG_DATE =
+  /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(\d{1,2}),?\s+(\d{4})\b/gi;
+
+function pageAt(offset: number, pageOffsets: number[]): number {
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length; i += 1) {
+    if (pageOffsets[i] <= offset) page = i + 1;
+  }
+  return page;
+}
+
+// Only the words since the previous number count, so one label doesn't vouch for a whole row.
+function hasLabelBefore(text: string, offset: number, label: RegExp): boolean {
+  const window = text.slice(Math.max(0, offset - LABEL_WINDOW), offset);
+  return label.test(window.slice(window.search(/\d[^\d]*$/) + 1));
+}
+
+// Keeps the most confident occurrence of each value, then the most confident values overall.
+function topFields<T>(
+  fields: Array<ExtractedField<T> & { offset: number }>,
+  keyOf: (value: T) => unknown = (value) => value
+): ExtractedField<T>[] {
+  const best = new Map<unknown, ExtractedField<T> & { offset: number }>();
+  for (const field of fields) {
+    const key = keyOf(field.value);
+    const current = best.get(key);
+    if (!current || field.confidence > current.confidence) {
+      best.set(key, field);
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.confidence - a.confidence || a.offset - b.offset)
+    .slice(0, MAX_FIELDS_PER_KIND)
+    .map(({ value, raw, page, confidence }) => ({ value, raw, page, confidence }));
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function expandYear(year: string): number {
+  const value = Number(year);
+  if (year.length === 4) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+}
+
+interface DateMatch {
+  iso: string;
+  raw: string;
+  offset: number;
+}
+
+/** Every calendar date written as 3/31/2024, 2024-03-31 or March 31, 2024, in text order. */
+function findDates(text: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const iso = toIsoDate(expandYear(match[3]), Number(match[1]), Number(match[2]));
+    if (iso) matches.push({ iso, raw: match[0], offset: match.index });
+  }
+  for (const match of text.matchAll(ISO_DATE)) {
+    const iso = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (iso) matches.push({ iso, raw: match[0], offset: match.index });
+  }
+  for (const match of text.matchAll(LONG_DATE)) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    const iso = toIsoDate(Number(match[3]), month, Number(match[2]));
+    if (iso) matches.push({ iso, raw: match[0], offset: match.index });
+  }
+  return matches.sort((a, b) => a.offset - b.offset);
+}
+
+function parseAmount(whole: string, cents = ''): number {
+  return Number(`${whole.replace(/,/g, '')}${cents}`);
+}
+
+export function extractFields(text: string, pageOffsets: number[] = []): ExtractedFields {
+  const amounts: Array<ExtractedField<number> & { offset: number }> = [];
+  for (const match of text.matchAll(DOLLAR_AMOUNT)) {
+    amounts.push({
+      value: parseAmount(match[1], match[2]),
+      raw: match[0].trim(),
+      page: pageAt(match.index, pageOffsets),
+      confidence: hasLabelBefore(text, match.index, AMOUNT_LABEL) ? 0.9 : 0.7,
+      offset: match.index,
+    });
+  }
+  for (const match of text.matchAll(LABELLED_AMOUNT)) {
+    const offset = match.index + match[0].lastIndexOf(match[1]);
+    amounts.push({
+      value: parseAmount(match[1]),
+      raw: match[1],
+      page: pageAt(offset, pageOffsets),
+      confidence: 0.6,
+      offset,
+    });
+  }
+
+  const accountNumbers: Array<ExtractedField<string> & { offset: number }> = [];
+  for (const match of text.matchAll(ACCOUNT_NUMBER)) {
+    const raw = match[1].replace(/[- ]+$/, '');
+    if ((raw.match(/\d/g) ?? []).length < 4) continue;
+    const masked = /[xX*•]/.test(raw);
+    accountNumbers.push({
+      value: masked ? `****${raw.replace(/\D/g, '').slice(-4)}` : raw.toUpperCase(),
+      raw,
+      page: pageAt(match.index, pageOffsets),
+      confidence: masked ? 0.7 : 0.9,
+      offset: match.index,
+    });
+  }
+  for (const match of text.matchAll(ACCOUNT_ENDING)) {
+    accountNumbers.push({
+      value: `****${match[1]}`,
+      raw: match[0],
+      page: pageAt(match.index, pageOffsets),
+      confidence: 0.6,
+      offset: match.index,
+    });
+  }
+
+  const dates = findDates(text);
+  const statementPeriods: Array<ExtractedField<StatementPeriod> & { offset: number }> = [];
+  for (let i = 0; i + 1 < dates.length; i += 1) {
+    const [from, to] = [dates[i], dates[i + 1]];
+    const between = text.slice(from.offset + from.raw.length, to.offset);
+    if (!PERIOD_SEPARATOR.test(between) || from.iso > to.iso) continue;
+    statementPeriods.push({
+      value: { start: from.iso, end: to.iso },
+      raw: text.slice(from.offset, to.offset + to.raw.length),
+      page: pageAt(from.offset, pageOffsets),
+      confidence: hasLabelBefore(text, from.offset, PERIOD_LABEL) ? 0.9 : 0.7,
+      offset: from.offset,
+    });
+  }
+
+  const statementDates = dates.map((match) => ({
+    value: match.iso,
+    raw: match.raw,
+    page: pageAt(match.offset, pageOffsets),
+    confidence: hasLabelBefore(text, match.offset, DATE_LABEL) ? 0.9 : 0.4,
+    offset: match.offset,
+  }));
+
+  return {
+    amounts: topFields(amounts),
+    accountNumbers: topFields(accountNumbers),
+    statementDates: topFields(statementDates),
+    statementPeriods: topFields(statementPeriods, (period) => `${period.start}..${period.end}`),
+  };
+}
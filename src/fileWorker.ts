@@ -0,0 +1,25 @@
+// src/fileWorker.ts
+// Web Worker entry for workerPool.ts: streams a file through SHA-256 or extracts PDF text
+// from a transferred buffer.
+
+import * as pdfjsWorker from "pdfjs-dist/legacy/build/pdf.worker.mjs";
+import { hashBlob } from "./hash";
+import { extractPdfText } from "./pdfText";
+import type { FileJobRequest, FileJobResponse } from "./workerPool";
+
+// Run pdf.js's parser in this thread rather than spawning a nested worker per document.
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+self.addEventListener("message", async (event: MessageEvent<FileJobRequest>) => {
+  const request = event.data;
+  if (typeof request?.id !== "number") return;
+  const { id } = request;
+  let response: FileJobResponse;
+  try {
+    const result = request.kind === "hash" ? await hashBlob(request.file) : await extractPdfText(request.buffer);
+    response = { id, ok: true, result };
+  } catch (error) {
+    response = { id, ok: false, error: String(error) };
+  }
+  self.postMessage(response);
+});
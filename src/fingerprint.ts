@@ -0,0 +1,121 @@
+// src/fingerprint.ts
+// Similarity fingerprints for near-duplicate detection: a MinHash signature over word
+// shingles of the extracted text, and a 64-bit difference hash (dHash) of image pixels.
+// Both are small enough to keep on every ProcessedFile and in the manifest.
+
+import { normalizeText } from './normalize';
+
+export interface DocumentFingerprint {
+  /** MinHash signature of the text's word 3-shingles. */
+  text?: number[];
+  /** Difference hash of the image as 16 hex digits. */
+  image?: string;
+}
+
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 64;
+/** Shorter texts (letterheads, cover sheets) match too easily to be worth comparing. */
+const MIN_WORDS = 20;
+
+// MurmurHash3's 32-bit finalizer: a cheap, well-mixed hash for the MinHash permutations.
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => fmix32(Math.imul(index + 1, 0x9e3779b9)));
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function textFingerprint(text: string): number[] | undefined {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  if (words.length < MIN_WORDS) return undefined;
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let j = 0; j < SIGNATURE_SIZE; j += 1) {
+      const value = fmix32(shingle ^ SEEDS[j]);
+      if (value < signature[j]) signature[j] = value;
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity of the two texts' shingle sets (0–1). */
+export function textSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    if (a[i] === b[i]) equal += 1;
+  }
+  return equal / a.length;
+}
+
+/**
+ * dHash of an RGBA bitmap: shrink to 9×8 grey cells and record whether each cell is
+ * brighter than its right-hand neighbour. Near-blank images get no hash, since every
+ * blank page would otherwise match every other.
+ */
+export function dHashRgba(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): string | undefined {
+  const cols = 9;
+  const rows = 8;
+  const cells = new Float64Array(cols * rows);
+  const counts = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y += 1) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x += 1) {
+      const col = Math.min(cols - 1, Math.floor((x * cols) / width));
+      const offset = (y * width + x) * 4;
+      cells[row * cols + col] += 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+      counts[row * cols + col] += 1;
+    }
+  }
+  for (let i = 0; i < cells.length; i += 1) {
+    cells[i] = counts[i] > 0 ? cells[i] / counts[i] : 0;
+  }
+  if (Math.max(...cells) - Math.min(...cells) < 8) return undefined;
+
+  let hex = '';
+  for (let row = 0; row < rows; row += 1) {
+    let nibbles = 0;
+    for (let col = 0; col < cols - 1; col += 1) {
+      const bit = cells[row * cols + col] > cells[row * cols + col + 1] ? 1 : 0;
+      nibbles = (nibbles << 1) | bit;
+    }
+    hex += nibbles.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/** 1 minus the fraction of differing dHash bits (0–1). */
+export function imageSimilarity(a: string, b: string): number {
+  let differing = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      differing += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return 1 - differing / 64;
+}
+
+/** LSH buckets for a text signature: texts sharing any bucket are compared in full. */
+export function textSignatureBands(signature: number[], bandSize = 4): string[] {
+  const bands: string[] = [];
+  for (let start = 0; start < signature.length; start += bandSize) {
+    bands.push(`${start}:${signature.slice(start, start + bandSize).join(',')}`);
+  }
+  return bands;
+}
@@ -1,5 +1,29 @@
+import { createSha256 } from './sha256';
+
+/** Files up to this size are hashed in one WebCrypto call; larger ones are streamed. */
+export const STREAM_HASH_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
 export async function hashArrayBuffer(buffer: ArrayBuffer): Promise<string> {
   const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map((byte) => byte.toString(16).padStart(2, '0')).join('');
 }
+
+/** SHA-256 of a File or Blob without reading more than one stream chunk into memory at a time. */
+export async function hashBlob(blob: Blob): Promise<string> {
+  if (blob.size <= STREAM_HASH_THRESHOLD_BYTES) {
+    return hashArrayBuffer(await blob.arrayBuffer());
+  }
+  const sha256 = createSha256();
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    sha256.update(value);
+  }
+  return sha256.digestHex();
+}
+
+export function getHashPrefix(hash: string): string {
+  return hash.slice(0, 10);
+}
@@ -0,0 +1,37 @@
+// src/imageFingerprint.ts
+// Browser-side pixel decoding for image dHashes (fingerprint.ts). PNG and JPEG go through
+// createImageBitmap and a small canvas; TIFF, which browsers cannot decode, goes through UTIF.
+
+import UTIF from 'utif';
+import { dHashRgba } from './fingerprint';
+
+// Drawing into a small canvas averages away scan noise before the 9×8 reduction.
+const SAMPLE_SIZE = 64;
+
+function fingerprintTiff(buffer: ArrayBuffer): string | undefined {
+  const [frame] = UTIF.decode(buffer);
+  if (!frame) return undefined;
+  UTIF.decodeImage(buffer, frame);
+  if (!frame.width || !frame.height) return undefined;
+  return dHashRgba(UTIF.toRGBA8(frame), frame.width, frame.height);
+}
+
+export async function fingerprintImage(file: File): Promise<string | undefined> {
+  if (/\.tiff?$/i.test(file.name)) {
+    return fingerprintTiff(await file.arrayBuffer());
+  }
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable for image fingerprinting');
+    }
+    context.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    return dHashRgba(context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data, SAMPLE_SIZE, SAMPLE_SIZE);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,229 @@
+// src/localModel.ts
+// Optional on-device classifier trained alongside the keyword rules: multinomial naive Bayes
+// over TF-IDF-weighted words. It learns from a golden-set file the reviewer loads and from the
+// files reviewers override, is stored per workspace, and its per-schedule probabilities can be
+// blended into the keyword scores (see classifyDocument).
+
+import { normalizeText } from './normalize';
+import type { ProcessedFile } from './reports';
+import type { ScheduleId } from './schedules';
+import { workspaceKey } from './storage';
+
+export interface TrainingExample {
+  text: string;
+  schedule: ScheduleId;
+}
+
+/** A training document as the model keeps it: its schedule and word counts, not its text. */
+export interface ModelExample {
+  schedule: ScheduleId;
+  words: Record<string, number>;
+}
+
+/**
+ * The documents the model learns from. Overrides are kept per file hash, so one that is changed
+ * or cleared is updated on its own and those confirmed in earlier sessions are kept.
+ */
+export interface LocalModel {
+  version: 2;
+  /** When the model last changed. */
+  trainedAt: string;
+  golden: ModelExample[];
+  overrides: Record<string, ModelExample>;
+}
+
+export interface LocalModelSettings {
+  enabled: boolean;
+  /** 0–1: the model's share of each schedule's score; the keyword score keeps the rest. */
+  weight: number;
+  model: LocalModel | null;
+}
+
+export interface CompiledLocalModel {
+  schedules: ScheduleId[];
+  logPriors: Record<ScheduleId, number>;
+  idf: Map<string, number>;
+  logLikelihoods: Record<ScheduleId, Map<string, number>>;
+  /** Log likelihood of a known word a schedule never saw. */
+  unseen: Record<ScheduleId, number>;
+}
+
+/** What classifyDocument needs to blend the model into the keyword scores. */
+export interface ModelBlend {
+  model: CompiledLocalModel;
+  weight: number;
+}
+
+export interface ModelPrediction {
+  vote: ScheduleId;
+  /** The vote's probability, 0–1. */
+  confidence: number;
+  probabilities: Record<ScheduleId, number>;
+}
+
+export const DEFAULT_MODEL_WEIGHT = 0.3;
+/** A probability of 1 is worth this many points before blending; twice SCORE_FLOOR. */
+export const MODEL_SCORE_SCALE = 36;
+const SMOOTHING = 0.5;
+const MODEL_KEY = 'estate706.localModel.v1';
+
+const DEFAULT_SETTINGS: LocalModelSettings = {
+  enabled: false,
+  weight: DEFAULT_MODEL_WEIGHT,
+  model: null,
+};
+
+export function loadLocalModelSettings(): LocalModelSettings {
+  const raw = localStorage.getItem(workspaceKey(MODEL_KEY));
+  if (!raw) return DEFAULT_SETTINGS;
+  try {
+    const { enabled, weight, model } = { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<LocalModelSettings>) };
+    // Version 1 models kept only totals, which cannot be updated per override.
+    return { enabled, weight, model: model?.version === 2 ? model : null };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveLocalModelSettings(settings: LocalModelSettings): void {
+  localStorage.setItem(workspaceKey(MODEL_KEY), JSON.stringify(settings));
+}
+
+/**
+ * The labelled documents of a golden-set file in the format of tests/fixtures/golden-set.json:
+ * an array of `{ text, expectedSchedule }`. Documents without an expected schedule are skipped.
+ */
+export function parseGoldenSet(raw: unknown): TrainingExample[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Not a golden set: expected an array of documents.');
+  }
+  return raw.flatMap((entry, index) => {
+    const fixture = entry as { text?: unknown; expectedSchedule?: unknown } | null;
+    if (!fixture || typeof fixture.text !== 'string') {
+      throw new Error(`Golden-set document ${index + 1} has no text.`);
+    }
+    return typeof fixture.expectedSchedule === 'string'
+      ? [{ text: fixture.text, schedule: fixture.expectedSchedule }]
+      : [];
+  });
+}
+
+// Words of three letters or more with a letter in them, and how often each occurs.
+function countWords(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const word of normalizeText(text).split(' ')) {
+    if (word.length >= 3 && /[a-z]/.test(word)) counts[word] = (counts[word] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function toModelExample({ text, schedule }: TrainingExample): ModelExample | null {
+  const words = countWords(text);
+  return Object.keys(words).length > 0 ? { schedule, words } : null;
+}
+
+function emptyModel(trainedAt: string): LocalModel {
+  return { version: 2, trainedAt, golden: [], overrides: {} };
+}
+
+/** `model` with its golden-set documents replaced by `goldenSet`; a new model if there is none. */
+export function setGoldenSet(model: LocalModel | null, goldenSet: TrainingExample[], trainedAt: string): LocalModel {
+  const golden = goldenSet.flatMap((example) => toModelExample(example) ?? []);
+  return { ...(model ?? emptyModel(trainedAt)), trainedAt, golden };
+}
+
+/**
+ * `model` with the override examples for `hashes` brought in line with `overrides`; a new model
+ * if there is none. Without `hashes`, every override and every example is checked. A file in
+ * `files` with text is learned from that text. Otherwise a relabelled override keeps the words
+ * learned earlier, since files overridden before the sort are not read. A cleared override is
+ * forgotten.
+ */
+export function updateOverrideExamples(
+  model: LocalModel | null,
+  files: ProcessedFile[],
+  overrides: Record<string, ScheduleId>,
+  trainedAt: string,
+  hashes: string[] = [...new Set([...Object.keys(overrides), ...Object.keys(model?.overrides ?? {})])]
+): LocalModel {
+  const texts = new Map(
+    files.flatMap((file) => (file.decision !== 'duplicate' && file.text?.trim() ? [[file.hash, file.text]] : []))
+  );
+  const examples = { ...model?.overrides };
+  for (const hash of hashes) {
+    const schedule = overrides[hash];
+    const text = texts.get(hash);
+    const example = text !== undefined ? toModelExample({ text, schedule }) : examples[hash];
+    if (schedule && example) {
+      examples[hash] = { ...example, schedule };
+    } else {
+      delete examples[hash];
+    }
+  }
+  return { ...(model ?? emptyModel(trainedAt)), trainedAt, overrides: examples };
+}
+
+/** The schedules the model has examples for, in the order it scores them. */
+export function getModelSchedules(model: LocalModel): ScheduleId[] {
+  return [...new Set([...model.golden, ...Object.values(model.overrides)].map((example) => example.schedule))];
+}
+
+export function compileLocalModel(model: LocalModel): CompiledLocalModel {
+  const documents: Record<ScheduleId, number> = {};
+  // Per schedule, each word's sublinear frequency 1 + ln(count), summed over its documents.
+  const termWeights: Record<ScheduleId, Record<string, number>> = {};
+  const documentFrequency: Record<string, number> = {};
+  for (const { schedule, words } of [...model.golden, ...Object.values(model.overrides)]) {
+    documents[schedule] = (documents[schedule] ?? 0) + 1;
+    const weights = (termWeights[schedule] ??= {});
+    for (const [word, count] of Object.entries(words)) {
+      weights[word] = (weights[word] ?? 0) + 1 + Math.log(count);
+      documentFrequency[word] = (documentFrequency[word] ?? 0) + 1;
+    }
+  }
+
+  const schedules = Object.keys(documents);
+  const total = schedules.reduce((sum, schedule) => sum + documents[schedule], 0);
+  const idf = new Map(
+    Object.entries(documentFrequency).map(([word, count]) => [word, Math.log((total + 1) / (count + 1)) + 1])
+  );
+  const compiled: CompiledLocalModel = { schedules, logPriors: {}, idf, logLikelihoods: {}, unseen: {} };
+  for (const schedule of schedules) {
+    const weighted = Object.entries(termWeights[schedule]).map(
+      ([word, weight]) => [word, weight * (idf.get(word) ?? 1)] as const
+    );
+    const denominator = weighted.reduce((sum, [, weight]) => sum + weight, 0) + SMOOTHING * idf.size;
+    compiled.logPriors[schedule] = Math.log(documents[schedule] / total);
+    compiled.logLikelihoods[schedule] = new Map(
+      weighted.map(([word, weight]) => [word, Math.log((weight + SMOOTHING) / denominator)])
+    );
+    compiled.unseen[schedule] = Math.log(SMOOTHING / denominator);
+  }
+  return compiled;
+}
+
+/** The model's vote for `text`, or null when it has no word the model knows. */
+export function predictSchedule(model: CompiledLocalModel, text: string): ModelPrediction | null {
+  const features = Object.entries(countWords(text)).flatMap(([word, count]) => {
+    const idf = model.idf.get(word);
+    return idf === undefined ? [] : [[word, (1 + Math.log(count)) * idf] as const];
+  });
+  if (features.length === 0 || model.schedules.length === 0) return null;
+
+  const logScores = model.schedules.map((schedule) => {
+    const likelihoods = model.logLikelihoods[schedule];
+    return features.reduce(
+      (sum, [word, value]) => sum + value * (likelihoods.get(word) ?? model.unseen[schedule]),
+      model.logPriors[schedule]
+    );
+  });
+  const max = Math.max(...logScores);
+  const exps = logScores.map((score) => Math.exp(score - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  const probabilities: Record<ScheduleId, number> = {};
+  model.schedules.forEach((schedule, index) => {
+    probabilities[schedule] = exps[index] / sum;
+  });
+  const vote = model.schedules[logScores.indexOf(max)];
+  return { vote, confidence: probabilities[vote], probabilities };
+}
@@ -0,0 +1,93 @@
+// src/nearDuplicates.ts
+// Probable duplicates: distinct files (different SHA-256) whose text or image fingerprints
+// are at least `threshold` similar, plus the reviewer's confirm/reject decision per pair.
+
+import { imageSimilarity, textSignatureBands, textSimilarity } from './fingerprint';
+import type { ProcessedFile } from './reports';
+import { workspaceKey } from './storage';
+
+export type NearDuplicateKind = 'text' | 'image';
+export type NearDuplicateDecision = 'confirmed' | 'rejected';
+
+export interface NearDuplicatePair {
+  /** Stable id for the pair: both hashes, sorted, joined with `:`. */
+  key: string;
+  kind: NearDuplicateKind;
+  /** 0–1; estimated shingle overlap for text, matching dHash bits for images. */
+  similarity: number;
+  /** The file with the first relative path, as for byte-identical duplicates. */
+  kept: ProcessedFile;
+  duplicate: ProcessedFile;
+}
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+const DECISIONS_KEY = 'estate706.nearDuplicateDecisions.v1';
+
+export function getNearDuplicateKey(hashA: string, hashB: string): string {
+  return [hashA, hashB].sort().join(':');
+}
+
+export function loadNearDuplicateDecisions(): Record<string, NearDuplicateDecision> {
+  const raw = localStorage.getItem(workspaceKey(DECISIONS_KEY));
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, NearDuplicateDecision>;
+  } catch {
+    return {};
+  }
+}
+
+export function saveNearDuplicateDecisions(decisions: Record<string, NearDuplicateDecision>): void {
+  localStorage.setItem(workspaceKey(DECISIONS_KEY), JSON.stringify(decisions, null, 2));
+}
+
+function toPair(a: ProcessedFile, b: ProcessedFile, kind: NearDuplicateKind, similarity: number): NearDuplicatePair {
+  const [kept, duplicate] = a.relativePath.localeCompare(b.relativePath) <= 0 ? [a, b] : [b, a];
+  return { key: getNearDuplicateKey(a.hash, b.hash), kind, similarity, kept, duplicate };
+}
+
+/**
+ * Pairs of fingerprinted files at or above `threshold`, most similar first. Byte-identical
+ * copies are already handled by SHA-256 and are skipped. Text signatures are bucketed by
+ * LSH band so only files sharing a band are compared; image hashes are compared pairwise.
+ */
+export function findNearDuplicates(files: ProcessedFile[], threshold: number): NearDuplicatePair[] {
+  const candidates = files.filter((file) => file.fingerprint && file.reason !== 'sha256_duplicate');
+  const pairs = new Map<string, NearDuplicatePair>();
+
+  const buckets = new Map<string, ProcessedFile[]>();
+  for (const file of candidates) {
+    const signature = file.fingerprint?.text;
+    if (!signature) continue;
+    for (const band of textSignatureBands(signature)) {
+      const bucket = buckets.get(band) ?? [];
+      bucket.push(file);
+      buckets.set(band, bucket);
+    }
+  }
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i += 1) {
+      for (let j = i + 1; j < bucket.length; j += 1) {
+        const key = getNearDuplicateKey(bucket[i].hash, bucket[j].hash);
+        if (pairs.has(key)) continue;
+        const similarity = textSimilarity(bucket[i].fingerprint?.text ?? [], bucket[j].fingerprint?.text ?? []);
+        if (similarity >= threshold) pairs.set(key, toPair(bucket[i], bucket[j], 'text', similarity));
+      }
+    }
+  }
+
+  const images = candidates.filter((file) => file.fingerprint?.image);
+  for (let i = 0; i < images.length; i += 1) {
+    for (let j = i + 1; j < images.length; j += 1) {
+      const key = getNearDuplicateKey(images[i].hash, images[j].hash);
+      if (pairs.has(key)) continue;
+      const similarity = imageSimilarity(images[i].fingerprint?.image ?? '', images[j].fingerprint?.image ?? '');
+      if (similarity >= threshold) pairs.set(key, toPair(images[i], images[j], 'image', similarity));
+    }
+  }
+
+  return [...pairs.values()].sort(
+    (a, b) => b.similarity - a.similarity || a.kept.relativePath.localeCompare(b.kept.relativePath)
+  );
+}
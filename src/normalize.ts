@@ -6,20 +6,107 @@ export function normalizeText(value: string): string {
     .trim();
 }
 
-export function countTermOccurrences(text: string, term: string): number {
-  if (!text || !term) {
-    return 0;
+/**
+ * `text` normalized as by normalizeText, with the index in `text` of the character each
+ * normalized character came from, so matches found in normalized text can be mapped back.
+ */
+export interface IndexedText {
+  normalized: string;
+  sources: number[];
+  /** Index of the word each normalized character is in; a space counts with the word before it. */
+  words: number[];
+}
+
+export function indexText(text: string): IndexedText {
+  const chars: string[] = [];
+  const sources: number[] = [];
+  const words: number[] = [];
+  let word = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    for (const char of text[index].toLowerCase()) {
+      if ((char >= 'a' && char <= 'z') || (char >= '0' && char <= '9')) {
+        if (chars[chars.length - 1] === ' ') word += 1;
+        chars.push(char);
+        sources.push(index);
+        words.push(word);
+      } else if (chars.length > 0 && chars[chars.length - 1] !== ' ') {
+        chars.push(' ');
+        sources.push(index);
+        words.push(word);
+      }
+    }
   }
-  const normalizedText = normalizeText(text);
+  if (chars[chars.length - 1] === ' ') {
+    chars.pop();
+    sources.pop();
+    words.pop();
+  }
+  return { normalized: chars.join(''), sources, words };
+}
+
+// Index in the normalized text of each non-overlapping occurrence of `term`.
+function findTermIndexes(indexed: IndexedText, term: string): { index: number; length: number }[] {
   const normalizedTerm = normalizeText(term);
   if (!normalizedTerm) {
-    return 0;
+    return [];
   }
-  let count = 0;
-  let index = normalizedText.indexOf(normalizedTerm);
+  const matches: { index: number; length: number }[] = [];
+  let index = indexed.normalized.indexOf(normalizedTerm);
   while (index !== -1) {
-    count += 1;
-    index = normalizedText.indexOf(normalizedTerm, index + normalizedTerm.length);
+    matches.push({ index, length: normalizedTerm.length });
+    index = indexed.normalized.indexOf(normalizedTerm, index + normalizedTerm.length);
+  }
+  return matches;
+}
+
+function toOffsets(indexed: IndexedText, match: { index: number; length: number }): [number, number] {
+  return [indexed.sources[match.index], indexed.sources[match.index + match.length - 1] + 1];
+}
+
+/**
+ * Start and end (exclusive) offsets in the original text of each occurrence of `term`. Case
+ * and punctuation are ignored, and a term can match inside a longer word.
+ */
+export function findTermOffsets(indexed: IndexedText, term: string): [number, number][] {
+  return findTermIndexes(indexed, term).map((match) => toOffsets(indexed, match));
+}
+
+// Index of the first entry in `sorted` greater than `value`, or its length if there is none.
+function upperBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] <= value) low = middle + 1;
+    else high = middle;
   }
-  return count;
+  return low;
+}
+
+/**
+ * Offsets of each occurrence of `first` with an occurrence of `second` at most `within` words
+ * away, before or after it. Terms match as in findTermOffsets.
+ */
+export function findProximityOffsets(
+  indexed: IndexedText,
+  first: string,
+  second: string,
+  within: number
+): [number, number][] {
+  // Occurrences do not overlap, so their first and last word indexes both ascend.
+  const others = findTermIndexes(indexed, second);
+  const otherStarts = others.map((match) => indexed.words[match.index]);
+  const otherEnds = others.map((match) => indexed.words[match.index + match.length - 1]);
+  return findTermIndexes(indexed, first)
+    .filter((match) => {
+      const start = indexed.words[match.index];
+      const end = indexed.words[match.index + match.length - 1];
+      // The nearest occurrence starting after this one ends, and the last one starting before.
+      const after = upperBound(otherStarts, end);
+      return (
+        (after < others.length && otherStarts[after] - end - 1 <= within) ||
+        (after > 0 && start - otherEnds[after - 1] - 1 <= within)
+      );
+    })
+    .map((match) => toOffsets(indexed, match));
 }
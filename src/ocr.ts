@@ -0,0 +1,175 @@
+// src/ocr.ts
+// In-browser OCR for scanned PDFs and image files.
+// The Tesseract worker, WASM core and English language data are bundled with the app,
+// so recognition runs fully offline and nothing is fetched from a CDN.
+
+import { createWorker, type Worker as TesseractWorker } from 'tesseract.js';
+import tesseractWorkerSrc from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreSrc from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js?url';
+import engTrainedDataSrc from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import UTIF from 'utif';
+// pdf.js' own worker is configured once in pdfWorker.ts.
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Tesseract fetches `<langPath>/eng.traineddata.gz`, so it needs the directory of the
+// bundled file. vite.config.ts keeps that asset's name unhashed for this reason.
+const LANG_PATH = engTrainedDataSrc.slice(0, engTrainedDataSrc.lastIndexOf('/'));
+// Given a directory, Tesseract loads the relaxed-SIMD, SIMD or plain core, whichever the
+// browser supports. All three LSTM cores are bundled and kept unhashed next to each other.
+const CORE_PATH = tesseractCoreSrc.slice(0, tesseractCoreSrc.lastIndexOf('/'));
+const OCR_RENDER_SCALE = 2;
+/** Pages of a scanned PDF or multi-page TIFF that are OCR'd; later pages are not read. */
+export const OCR_MAX_PAGES = 6;
+const LSTM_ONLY = 1;
+
+export interface OcrPageResult {
+  page: number;
+  confidence: number;
+  chars: number;
+}
+
+export interface OcrResult {
+  text: string;
+  pages: OcrPageResult[];
+  /** Offset in `text` where each page starts. */
+  pageOffsets: number[];
+  /** Pages in the document; more than `pages.length` when OCR stopped at OCR_MAX_PAGES. */
+  totalPages: number;
+}
+
+interface PdfViewport {
+  width: number;
+  height: number;
+}
+
+interface PdfPageProxy {
+  getViewport(params: { scale: number }): PdfViewport;
+  render(params: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): { promise: Promise<void> };
+  cleanup(): void;
+}
+
+interface PdfDocumentProxy {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPageProxy>;
+  destroy(): Promise<void>;
+}
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+function getOcrWorker(): Promise<TesseractWorker> {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', LSTM_ONLY, {
+      workerPath: tesseractWorkerSrc,
+      corePath: CORE_PATH,
+      langPath: LANG_PATH,
+      workerBlobURL: false,
+      cacheMethod: 'none',
+    }).catch((error: unknown) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export async function terminateOcrWorker(): Promise<void> {
+  const pending = workerPromise;
+  workerPromise = null;
+  if (pending) {
+    await (await pending).terminate();
+  }
+}
+
+async function recognize(image: Blob | HTMLCanvasElement, page: number): Promise<{ text: string; page: OcrPageResult }> {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(image);
+  const text = data.text ?? '';
+  return {
+    text,
+    page: {
+      page,
+      confidence: Math.round(data.confidence ?? 0),
+      chars: text.trim().length,
+    },
+  };
+}
+
+// Tesseract cannot decode TIFF, so each frame is drawn into a canvas through UTIF first.
+async function ocrTiff(file: Blob, maxPages: number): Promise<OcrResult> {
+  const buffer = await file.arrayBuffer();
+  const frames = UTIF.decode(buffer).filter((frame) => {
+    UTIF.decodeImage(buffer, frame);
+    return Boolean(frame.width && frame.height);
+  });
+  const pages: OcrPageResult[] = [];
+  const pageOffsets: number[] = [];
+  let text = '';
+
+  for (const [index, frame] of frames.slice(0, maxPages).entries()) {
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable for OCR rendering');
+    }
+    context.putImageData(new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(frame)), frame.width, frame.height), 0, 0);
+    const result = await recognize(canvas, index + 1);
+    pages.push(result.page);
+    pageOffsets.push(text.length);
+    text += result.text + '\n';
+  }
+
+  return { text, pages, pageOffsets, totalPages: frames.length };
+}
+
+export async function ocrImage(image: File, maxPages = OCR_MAX_PAGES): Promise<OcrResult> {
+  if (/\.tiff?$/i.test(image.name)) {
+    return ocrTiff(image, maxPages);
+  }
+  const { text, page } = await recognize(image, 1);
+  return { text, pages: [page], pageOffsets: [0], totalPages: 1 };
+}
+
+export async function ocrPdf(file: Blob, maxPages = OCR_MAX_PAGES): Promise<OcrResult> {
+  // pdf.js detaches the buffer it is given, so always read a fresh copy.
+  const data = await file.arrayBuffer();
+  const pdf = (await pdfjs.getDocument({ data }).promise) as PdfDocumentProxy;
+  const pageCount = Math.min(pdf.numPages || 0, maxPages);
+  const pages: OcrPageResult[] = [];
+  const pageOffsets: number[] = [];
+  let text = '';
+
+  try {
+    for (let i = 1; i <= pageCount; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context unavailable for OCR rendering');
+      }
+      await page.render({ canvasContext: context, viewport }).promise;
+      const result = await recognize(canvas, i);
+      page.cleanup();
+      pages.push(result.page);
+      pageOffsets.push(text.length);
+      text += result.text + '\n';
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { text, pages, pageOffsets, totalPages: pdf.numPages || 0 };
+}
+
+// What the manifest keeps about an OCR pass: per-page confidence without the text itself.
+export interface OcrSummary {
+  averageConfidence: number;
+  pages: OcrPageResult[];
+  totalPages?: number;
+}
@@ -1,11 +1,9 @@
 // src/pdfText.ts
 // Extract embedded text from a PDF (no OCR).
 // Uses pdfjs "legacy" build for better compatibility in Vite/StackBlitz/WebContainer.
+// The browser worker is configured in pdfWorker.ts so this module also runs under Node.
 
 import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
-import workerSrc from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
-
-(pdfjs as any).GlobalWorkerOptions.workerSrc = workerSrc;
 
 function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise<T> {
   return new Promise((resolve, reject) => {
@@ -29,31 +27,48 @@ export type PdfTextResult = {
   pagesSampled: number;
   chars: number;
   textItems: number;
+  /** Offset in `text` where each sampled page starts, for locating extracted fields. */
+  pageOffsets: number[];
 };
 
+// pdf.js verbosity levels: 0 prints errors only, 1 also prints warnings about malformed PDFs.
+let verbosity = 1;
+
+/** Turns pdf.js' console warnings off or on, for the CLI's --quiet. */
+export function setPdfWarnings(enabled: boolean): void {
+  verbosity = enabled ? 1 : 0;
+}
+
 export async function extractPdfText(buffer: ArrayBuffer): Promise<PdfTextResult> {
-  const loadingTask = (pdfjs as any).getDocument({ data: buffer });
-  const pdf = (await withTimeout(loadingTask.promise, 30000, "PDF load")) as any;
+  const loadingTask = (pdfjs as any).getDocument({ data: buffer, verbosity });
+  try {
+    const pdf = (await withTimeout(loadingTask.promise, 30000, "PDF load")) as any;
 
-  const numPages = (pdf.numPages as number) || 0;
-  const pagesSampled = Math.min(numPages, 6);
+    const numPages = (pdf.numPages as number) || 0;
+    const pagesSampled = Math.min(numPages, 6);
 
-  let text = "";
-  let textItems = 0;
+    let text = "";
+    let textItems = 0;
+    const pageOffsets: number[] = [];
 
-  for (let i = 1; i <= pagesSampled; i++) {
-    const page = (await withTimeout(pdf.getPage(i), 15000, `PDF getPage(${i})`)) as any;
-    const content = (await withTimeout(page.getTextContent(), 15000, `PDF getTextContent(${i})`)) as any;
-    const items = (content.items || []) as any[];
-    textItems += items.length;
+    for (let i = 1; i <= pagesSampled; i++) {
+      const page = (await withTimeout(pdf.getPage(i), 15000, `PDF getPage(${i})`)) as any;
+      const content = (await withTimeout(page.getTextContent(), 15000, `PDF getTextContent(${i})`)) as any;
+      const items = (content.items || []) as any[];
+      textItems += items.length;
+      pageOffsets.push(text.length);
 
-    const strings = items
-      .map((item) => (typeof item?.str === "string" ? item.str : ""))
-      .filter(Boolean);
+      const strings = items
+        .map((item) => (typeof item?.str === "string" ? item.str : ""))
+        .filter(Boolean);
 
-    text += strings.join(" ") + "\n";
-    if (text.length >= 5000) break;
-  }
+      text += strings.join(" ") + "\n";
+      if (text.length >= 5000) break;
+    }
 
-  return { text, numPages, pagesSampled, chars: text.length, textItems };
+    return { text, numPages, pagesSampled, chars: text.length, textItems, pageOffsets };
+  } finally {
+    // Release the parsed document; long-lived pool workers would otherwise keep every PDF.
+    void loadingTask.destroy();
+  }
 }
@@ -0,0 +1,8 @@
+// src/pdfWorker.ts
+// Point pdf.js at its bundled worker. Browser-only: the `?url` import needs Vite, so the
+// Node CLI leaves this module out and pdf.js falls back to its in-process worker there.
+
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import workerSrc from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
@@ -0,0 +1,165 @@
+// src/priorRun.ts
+// Incremental re-runs: reading a previous run's STATE/manifest.json and comparing that run
+// with the current one (added, changed, removed, moved and reclassified files).
+
+import type { ProcessedFile } from './reports';
+
+/** A file entry as written to manifest.json: everything but the File object. */
+export type ManifestFile = Omit<ProcessedFile, 'file'>;
+
+export interface PriorRun {
+  generatedAt: string;
+  files: ManifestFile[];
+}
+
+export type ChangeKind = 'added' | 'changed' | 'removed' | 'moved' | 'reclassified';
+
+export interface ChangeEntry {
+  change: ChangeKind;
+  hash: string;
+  relativePath: string;
+  previousRelativePath: string;
+  outputPath: string;
+  previousOutputPath: string;
+  /** `assigned:<schedule>`, `review:<candidate>` or `duplicate`, as now and before. */
+  placement: string;
+  previousPlacement: string;
+}
+
+const DECISIONS = ['assigned', 'review', 'duplicate'];
+
+/** Validates a parsed manifest.json well enough to reuse its decisions; throws on anything else. */
+export function parsePriorRun(raw: unknown): PriorRun {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as { files?: unknown }).files)) {
+    throw new Error('Not a sorter manifest: expected an object with a "files" array.');
+  }
+  const { generatedAt, files } = raw as { generatedAt?: unknown; files: unknown[] };
+  files.forEach((entry, index) => {
+    const file = entry as Partial<ManifestFile> | null;
+    if (
+      !file ||
+      typeof file.hash !== 'string' ||
+      typeof file.relativePath !== 'string' ||
+      typeof file.outputPath !== 'string' ||
+      typeof file.reason !== 'string' ||
+      !DECISIONS.includes(file.decision ?? '')
+    ) {
+      throw new Error(`Manifest file entry ${index + 1} is missing its hash, paths, decision or reason.`);
+    }
+  });
+  return { generatedAt: typeof generatedAt === 'string' ? generatedAt : '', files: files as ManifestFile[] };
+}
+
+export function groupPriorFilesByHash(priorRun: PriorRun): Map<string, ManifestFile[]> {
+  const byHash = new Map<string, ManifestFile[]>();
+  for (const file of priorRun.files) {
+    const group = byHash.get(file.hash) ?? [];
+    group.push(file);
+    byHash.set(file.hash, group);
+  }
+  return byHash;
+}
+
+// Reasons a decision is not reused for: copies of another file, reviewer overrides, which are
+// applied from the current overrides instead, failures, and results that depend on settings or
+// the environment (the size limit, scanned-PDF thresholds and OCR).
+const NOT_REUSED_REASONS = [
+  'sha256_duplicate',
+  'review_override',
+  'processing_error',
+  'pdf_parse_error',
+  'file_too_large',
+  'likely_scanned_pdf',
+  'ocr_error',
+  'ocr_no_text',
+];
+
+/** The classified copy in `group`: not a byte-identical duplicate, and not one that failed to process. */
+export function findClassifiedEntry(group: ManifestFile[] | undefined): ManifestFile | undefined {
+  return group?.find(
+    (file) =>
+      file.reason !== 'sha256_duplicate' &&
+      !file.reason.startsWith('processing_error') &&
+      !file.reason.startsWith('pdf_parse_error')
+  );
+}
+
+/**
+ * The entry whose decision a re-run can reuse for the file at `relativePath`: the same bytes at
+ * the same path, since filename and path rules read the path. Overrides and decisions that depend
+ * on settings or OCR are made again, and so are confirmed near duplicates, whose pairs are found
+ * afresh.
+ */
+export function findReusableEntry(group: ManifestFile[] | undefined, relativePath: string): ManifestFile | undefined {
+  return group?.find(
+    (file) =>
+      file.relativePath === relativePath &&
+      !file.nearDuplicateOf &&
+      !NOT_REUSED_REASONS.some((reason) => file.reason.startsWith(reason) || file.reason.includes(`; ${reason}`))
+  );
+}
+
+function placementOf(file: Pick<ProcessedFile, 'decision' | 'schedule' | 'candidate'>): string {
+  if (file.decision === 'assigned') return `assigned:${file.schedule ?? ''}`;
+  if (file.decision === 'review') return `review:${file.candidate ?? 'Unknown'}`;
+  return 'duplicate';
+}
+
+function changeEntry(change: ChangeKind, current?: ProcessedFile, previous?: ManifestFile): ChangeEntry {
+  return {
+    change,
+    hash: current?.hash ?? previous?.hash ?? '',
+    relativePath: current?.relativePath ?? '',
+    previousRelativePath: previous?.relativePath ?? '',
+    outputPath: current?.outputPath ?? '',
+    previousOutputPath: previous?.outputPath ?? '',
+    placement: current ? placementOf(current) : '',
+    previousPlacement: previous ? placementOf(previous) : '',
+  };
+}
+
+const CHANGE_ORDER: ChangeKind[] = ['added', 'changed', 'moved', 'reclassified', 'removed'];
+
+/**
+ * Per-file differences between a previous run and this one. A new hash at a path that
+ * existed before is `changed`; a known hash at a new path, replacing a path it no longer
+ * has, is `moved`; a known file whose schedule or decision differs is `reclassified`.
+ */
+export function buildChangeReport(priorRun: PriorRun, files: ProcessedFile[]): ChangeEntry[] {
+  const priorByHash = groupPriorFilesByHash(priorRun);
+  const priorByPath = new Map(priorRun.files.map((file) => [file.relativePath, file]));
+  const currentPaths = new Set(files.map((file) => file.relativePath));
+  const consumed = new Set<ManifestFile>();
+  const entries: ChangeEntry[] = [];
+
+  for (const file of files) {
+    const group = priorByHash.get(file.hash);
+    if (!group) {
+      const replaced = priorByPath.get(file.relativePath);
+      if (replaced) consumed.add(replaced);
+      entries.push(changeEntry(replaced ? 'changed' : 'added', file, replaced));
+      continue;
+    }
+    const samePath = group.find((prior) => prior.relativePath === file.relativePath);
+    if (samePath) {
+      consumed.add(samePath);
+      if (placementOf(samePath) !== placementOf(file)) entries.push(changeEntry('reclassified', file, samePath));
+      continue;
+    }
+    const vacated = group.find((prior) => !consumed.has(prior) && !currentPaths.has(prior.relativePath));
+    if (vacated) consumed.add(vacated);
+    entries.push(changeEntry(vacated ? 'moved' : 'added', file, vacated));
+  }
+
+  for (const prior of priorRun.files) {
+    if (!consumed.has(prior) && !currentPaths.has(prior.relativePath)) {
+      entries.push(changeEntry('removed', undefined, prior));
+    }
+  }
+
+  return entries.sort(
+    (a, b) =>
+      CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+      (a.relativePath || a.previousRelativePath).localeCompare(b.relativePath || b.previousRelativePath)
+  );
+}
@@ -0,0 +1,522 @@
+import type { ScannedDetectionThresholds, TermMatches, TextSource } from './classify';
+import type { ExtractedFields } from './extract';
+import type { DocumentFingerprint } from './fingerprint';
+import { findNearDuplicates, type NearDuplicateDecision } from './nearDuplicates';
+import type { OcrSummary } from './ocr';
+import type { PdfTextResult } from './pdfText';
+import { buildChangeReport, type ManifestFile, type PriorRun } from './priorRun';
+import { getScheduleFolder, getScheduleLabel, type ScheduleConfig } from './scheduleConfig';
+import type { ScheduleId } from './schedules';
+import {
+  findAccountsLackingValuationStatement,
+  getValuationCoverage,
+  getValuationDate,
+  type EstateProfile,
+} from './valuation';
+import type { ZipFileInput } from './zipExport';
+
+export interface ProcessedFile {
+  file: File;
+  name: string;
+  relativePath: string;
+  size: number;
+  type: string;
+  hash: string;
+  hashPrefix: string;
+  decision: 'duplicate' | 'review' | 'assigned';
+  schedule?: ScheduleId;
+  candidate?: ScheduleId | 'Unknown';
+  reason: string;
+  score: number;
+  outputPath: string;
+  scores: Record<ScheduleId, number>;
+  /** Terms that matched the text, per schedule; see classifyDocument. */
+  matches?: TermMatches;
+  /** The local model's schedule and its 0–1 probability, when the model was enabled; see localModel.ts. */
+  modelVote?: ScheduleId;
+  modelConfidence?: number;
+  /** The text the file was classified on: its embedded PDF text, or the OCR text when OCR ran. */
+  text?: string;
+  pdfMetrics?: PdfMetrics;
+  textSource?: TextSource;
+  ocr?: OcrSummary;
+  textSample?: string;
+  /** Amounts, account numbers and statement dates found in the text; see extract.ts. */
+  fields?: ExtractedFields;
+  /** Text and image similarity fingerprints for near-duplicate detection; see fingerprint.ts. */
+  fingerprint?: DocumentFingerprint;
+  overrideApplied?: boolean;
+  /** The classification a reviewer override replaced, restored when it is cleared. */
+  preOverride?: Pick<ProcessedFile, 'decision' | 'schedule' | 'candidate' | 'reason' | 'score'>;
+  /** Hash of the file a reviewer confirmed this one as a near duplicate of. */
+  nearDuplicateOf?: string;
+  /** The classification a confirmed near duplicate replaced, restored if it is rejected. */
+  preNearDuplicate?: Pick<ProcessedFile, 'decision' | 'schedule' | 'candidate' | 'reason' | 'score'>;
+  /** Decision carried over from a previous run's manifest instead of being recomputed. */
+  fromPriorRun?: boolean;
+  /** Output path in the previous run, kept while the file stays in the same folder. */
+  priorOutputPath?: string;
+  /** Left out of the exported ZIP and binders by a reviewer; see reviewActions.ts. */
+  excludedFromExport?: boolean;
+}
+
+/** A PDF's text extraction counts; the text itself is kept once, as ProcessedFile.text. */
+export type PdfMetrics = Omit<PdfTextResult, 'text'>;
+
+export interface DuplicateGroup {
+  hash: string;
+  hashPrefix: string;
+  count: number;
+  sourcePaths: string[];
+  keptName: string;
+  duplicateNames: string[];
+}
+
+export type ExportMode = 'full' | '706-only' | 'duplicates-only' | 'reports-only';
+
+export const EXPORT_MODES: ExportMode[] = ['full', '706-only', 'duplicates-only', 'reports-only'];
+
+export interface SortSummary {
+  total: number;
+  duplicates: number;
+  reviewNeeded: number;
+  bySchedule: Record<string, number>;
+}
+
+export interface SortReports {
+  reportCsv: string;
+  manifestJson: string;
+  duplicatesCsv: string;
+  inventoryCsv: string;
+  valuationGapsCsv: string;
+  /** Only for runs based on a previous manifest. */
+  changesCsv?: string;
+}
+
+export function buildCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const escaped = String(value ?? '').replace(/"/g, '""');
+          return `"${escaped}"`;
+        })
+        .join(',')
+    )
+    .join('\n');
+}
+
+export function summarizeBySchedule(
+  files: ProcessedFile[],
+  schedules: ScheduleConfig['schedules']
+): Record<string, number> {
+  const summary: Record<string, number> = {};
+  for (const schedule of schedules) {
+    summary[schedule.id] = 0;
+  }
+  for (const file of files) {
+    if (file.decision === 'assigned' && file.schedule && file.schedule in summary) {
+      summary[file.schedule] += 1;
+    }
+  }
+  return summary;
+}
+
+export function summarizeFiles(files: ProcessedFile[], schedules: ScheduleConfig['schedules']): SortSummary {
+  return {
+    total: files.length,
+    duplicates: files.filter((file) => file.decision === 'duplicate').length,
+    reviewNeeded: files.filter((file) => file.decision === 'review').length,
+    bySchedule: summarizeBySchedule(files, schedules),
+  };
+}
+
+function buildBaseOutputPath(file: ProcessedFile, schedules: ScheduleConfig['schedules']): string {
+  if (file.decision === 'duplicate') {
+    return `DUPLICATES/${file.hashPrefix}/${file.name}`;
+  }
+  if (file.decision === 'review') {
+    const candidate =
+      !file.candidate || file.candidate === 'Unknown' ? 'Unknown' : getScheduleFolder(file.candidate, schedules);
+    return `706/ReviewNeeded/${candidate}/${file.name}`;
+  }
+  return `706/${getScheduleFolder(file.schedule ?? 'Unknown', schedules)}/${file.name}`;
+}
+
+function ensureUniqueFilename(name: string, usedNames: Set<string>): string {
+  if (!usedNames.has(name)) {
+    usedNames.add(name);
+    return name;
+  }
+  const dotIndex = name.lastIndexOf('.');
+  const base = dotIndex === -1 ? name : name.slice(0, dotIndex);
+  const ext = dotIndex === -1 ? '' : name.slice(dotIndex);
+  let counter = 1;
+  let candidate = `${base}__dup${counter}${ext}`;
+  while (usedNames.has(candidate)) {
+    counter += 1;
+    candidate = `${base}__dup${counter}${ext}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+function splitOutputPath(outputPath: string): { dir: string; filename: string } {
+  const segments = outputPath.split('/');
+  const filename = segments.pop() ?? '';
+  return { dir: segments.join('/'), filename };
+}
+
+/**
+ * Gives every file a unique path in its folder. Paths from a previous run are reserved
+ * first, so files carried over keep them and only new files get `__dupN` suffixes.
+ */
+export function assignOutputPaths(files: ProcessedFile[], schedules: ScheduleConfig['schedules']): ProcessedFile[] {
+  const usedNamesByFolder = new Map<string, Set<string>>();
+  const usedNames = (dir: string) => {
+    const used = usedNamesByFolder.get(dir) ?? new Set<string>();
+    usedNamesByFolder.set(dir, used);
+    return used;
+  };
+
+  const reserved = files.map((file) => {
+    if (!file.priorOutputPath) return undefined;
+    const prior = splitOutputPath(file.priorOutputPath);
+    if (prior.dir !== splitOutputPath(buildBaseOutputPath(file, schedules)).dir) return undefined;
+    const used = usedNames(prior.dir);
+    if (used.has(prior.filename)) return undefined;
+    used.add(prior.filename);
+    return file.priorOutputPath;
+  });
+
+  return files.map((file, index) => {
+    const reservedPath = reserved[index];
+    if (reservedPath) return { ...file, outputPath: reservedPath };
+    const { dir, filename } = splitOutputPath(buildBaseOutputPath(file, schedules));
+    const used = usedNames(dir);
+    const uniqueName = ensureUniqueFilename(filename, used);
+    return {
+      ...file,
+      outputPath: dir.length > 0 ? `${dir}/${uniqueName}` : uniqueName,
+    };
+  });
+}
+
+export function buildDuplicatesGroups(files: ProcessedFile[]): DuplicateGroup[] {
+  const groups = new Map<string, ProcessedFile[]>();
+  for (const file of files) {
+    if (!groups.has(file.hash)) {
+      groups.set(file.hash, []);
+    }
+    groups.get(file.hash)?.push(file);
+  }
+
+  const results: DuplicateGroup[] = [];
+  for (const [hash, groupFiles] of groups.entries()) {
+    if (groupFiles.length < 2) continue;
+    const sorted = [...groupFiles].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    const kept = sorted[0];
+    const duplicateNames = sorted.slice(1).map((item) => item.name);
+    results.push({
+      hash,
+      hashPrefix: kept.hashPrefix,
+      count: sorted.length,
+      sourcePaths: sorted.map((item) => item.relativePath),
+      keptName: kept.name,
+      duplicateNames,
+    });
+  }
+  return results;
+}
+
+/** Files as written to manifest.json and saved sessions: everything but the File itself. */
+export function toManifestFiles(files: ProcessedFile[]): ManifestFile[] {
+  return files.map(({ file, ...rest }) => rest);
+}
+
+// The matched terms without their offsets, which only the details drawer reads.
+function withoutOffsets(matches: TermMatches): TermMatches {
+  return Object.fromEntries(
+    Object.entries(matches).map(([scheduleId, terms]) => [scheduleId, terms?.map(({ offsets, ...term }) => term)])
+  );
+}
+
+/**
+ * One row per extracted amount, account number, statement date and statement period, grouped
+ * by schedule in config order, then files still in review. Duplicates are left out; their kept
+ * copy is listed.
+ */
+export function buildInventoryCsv(files: ProcessedFile[], schedules: ScheduleConfig['schedules']): string {
+  const rows = [['schedule', 'schedule_label', 'name', 'output_path', 'field', 'value', 'raw', 'page', 'confidence']];
+  const groups: Array<{ id: string; label: string; files: ProcessedFile[] }> = [
+    ...schedules.map((schedule) => ({
+      id: schedule.id,
+      label: getScheduleLabel(schedule.id, schedules),
+      files: files.filter((file) => file.decision === 'assigned' && file.schedule === schedule.id),
+    })),
+    { id: 'ReviewNeeded', label: 'Review needed', files: files.filter((file) => file.decision === 'review') },
+  ];
+
+  for (const group of groups) {
+    const sorted = [...group.files].sort((a, b) => a.outputPath.localeCompare(b.outputPath));
+    for (const file of sorted) {
+      if (!file.fields) continue;
+      const fieldRows = [
+        ...file.fields.amounts.map((field) => ({ name: 'amount', value: field.value.toFixed(2), field })),
+        ...file.fields.accountNumbers.map((field) => ({ name: 'account_number', value: field.value, field })),
+        ...file.fields.statementDates.map((field) => ({ name: 'statement_date', value: field.value, field })),
+        ...file.fields.statementPeriods.map((field) => ({
+          name: 'statement_period',
+          value: `${field.value.start} to ${field.value.end}`,
+          field,
+        })),
+      ];
+      for (const { name, value, field } of fieldRows) {
+        rows.push([
+          group.id,
+          group.label,
+          file.name,
+          file.outputPath,
+          name,
+          value,
+          field.raw,
+          String(field.page),
+          field.confidence.toFixed(2),
+        ]);
+      }
+    }
+  }
+  return buildCsv(rows);
+}
+
+/**
+ * The terms that added most to the score of the file's schedule (or candidate), e.g.
+ * "deed x2 +24; parcel x1 +8".
+ */
+export function formatTopTerms(file: ProcessedFile, limit = 3): string {
+  const scheduleId = file.schedule ?? (file.candidate !== 'Unknown' ? file.candidate : undefined);
+  const terms = scheduleId ? (file.matches?.[scheduleId] ?? []) : [];
+  return terms
+    .filter((term) => term.contribution > 0)
+    .slice(0, limit)
+    .map((term) => `${term.term} x${term.count} +${term.contribution}`)
+    .join('; ');
+}
+
+export function buildReports(options: {
+  files: ProcessedFile[];
+  config: ScheduleConfig;
+  thresholds: ScannedDetectionThresholds;
+  ocrEnabled: boolean;
+  maxPdfParseBytes?: number;
+  estateProfile?: EstateProfile;
+  nearDuplicates?: { threshold: number; decisions: Record<string, NearDuplicateDecision> };
+  priorRun?: PriorRun;
+  /** The local model blended into the scores, if any. */
+  localModel?: { trainedAt: string; weight: number };
+}): SortReports {
+  const {
+    files,
+    config,
+    thresholds,
+    ocrEnabled,
+    maxPdfParseBytes,
+    estateProfile,
+    nearDuplicates,
+    priorRun,
+    localModel,
+  } = options;
+  const valuationDate = estateProfile ? getValuationDate(estateProfile) : null;
+  const rows = [
+    [
+      'name',
+      'relative_path',
+      'output_path',
+      'decision',
+      'schedule',
+      'candidate',
+      'reason',
+      'score',
+      'top_terms',
+      'text_source',
+      'ocr_confidence',
+      'valuation_check',
+      'excluded_from_export',
+      'hash',
+    ],
+  ];
+
+  for (const file of files) {
+    rows.push([
+      file.name,
+      file.relativePath,
+      file.outputPath,
+      file.decision,
+      file.schedule ?? '',
+      file.candidate ?? '',
+      file.reason,
+      String(file.score),
+      formatTopTerms(file),
+      file.textSource ?? '',
+      file.ocr ? String(file.ocr.averageConfidence) : '',
+      valuationDate && file.decision !== 'duplicate' ? getValuationCoverage(file, valuationDate) : '',
+      file.excludedFromExport ? 'yes' : '',
+      file.hash,
+    ]);
+  }
+
+  const reportCsv = buildCsv(rows);
+
+  // Exact groups first, then probable (near) duplicate pairs with their score and review state.
+  const duplicateGroups = buildDuplicatesGroups(files);
+  const nearDuplicatePairs = nearDuplicates ? findNearDuplicates(files, nearDuplicates.threshold) : [];
+  const duplicateRows = [
+    ['hashPrefix', 'count', 'source_relative_paths', 'kept_name', 'duplicate_names', 'match', 'similarity', 'review'],
+    ...duplicateGroups.map((group) => [
+      group.hashPrefix,
+      String(group.count),
+      group.sourcePaths.join(' | '),
+      group.keptName,
+      group.duplicateNames.join(' | '),
+      'exact',
+      '1.00',
+      '',
+    ]),
+    ...nearDuplicatePairs.map((pair) => [
+      pair.kept.hashPrefix,
+      '2',
+      `${pair.kept.relativePath} | ${pair.duplicate.relativePath}`,
+      pair.kept.name,
+      pair.duplicate.name,
+      `probable_${pair.kind}`,
+      pair.similarity.toFixed(2),
+      nearDuplicates?.decisions[pair.key] ?? 'pending',
+    ]),
+  ];
+  const duplicatesCsv = buildCsv(duplicateRows);
+
+  const manifestFiles = toManifestFiles(files).map((file) =>
+    file.matches ? { ...file, matches: withoutOffsets(file.matches) } : file
+  );
+  const manifestJson = JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      totals: summarizeFiles(files, config.schedules),
+      config,
+      thresholds,
+      ocrEnabled,
+      maxPdfParseBytes: maxPdfParseBytes ?? null,
+      estateProfile: estateProfile ?? null,
+      valuationDate,
+      nearDuplicateThreshold: nearDuplicates?.threshold ?? null,
+      localModel: localModel ?? null,
+      previousRun: priorRun ? { generatedAt: priorRun.generatedAt, files: priorRun.files.length } : null,
+      files: manifestFiles,
+    },
+    null,
+    2
+  );
+  const inventoryCsv = buildInventoryCsv(files, config.schedules);
+
+  const valuationGapsCsv = buildCsv([
+    ['valuation_date', 'account', 'schedule', 'documents', 'statement_periods_found'],
+    ...(valuationDate ? findAccountsLackingValuationStatement(files, valuationDate) : []).map((gap) => [
+      valuationDate ?? '',
+      gap.account,
+      gap.schedule,
+      gap.documents.join(' | '),
+      gap.periods.join(' | '),
+    ]),
+  ]);
+
+  const changesCsv = priorRun
+    ? buildCsv([
+        [
+          'change',
+          'relative_path',
+          'previous_relative_path',
+          'output_path',
+          'previous_output_path',
+          'placement',
+          'previous_placement',
+          'hash',
+        ],
+        ...buildChangeReport(priorRun, files).map((entry) => [
+          entry.change,
+          entry.relativePath,
+          entry.previousRelativePath,
+          entry.outputPath,
+          entry.previousOutputPath,
+          entry.placement,
+          entry.previousPlacement,
+          entry.hash,
+        ]),
+      ])
+    : undefined;
+  return { reportCsv, manifestJson, duplicatesCsv, inventoryCsv, valuationGapsCsv, changesCsv };
+}
+
+export function buildZipEntries(options: {
+  files: ProcessedFile[];
+  reportCsv: string;
+  manifestJson: string;
+  duplicatesCsv: string;
+  inventoryCsv: string;
+  valuationGapsCsv: string;
+  changesCsv?: string;
+  sourcePaths: Record<string, string[]>;
+  exportMode: ExportMode;
+}): ZipFileInput[] {
+  const {
+    files,
+    reportCsv,
+    manifestJson,
+    duplicatesCsv,
+    inventoryCsv,
+    valuationGapsCsv,
+    changesCsv,
+    sourcePaths,
+    exportMode,
+  } = options;
+  const entries: ZipFileInput[] = [];
+
+  const include706 = exportMode === 'full' || exportMode === '706-only';
+  const includeDuplicates = exportMode === 'full' || exportMode === 'duplicates-only';
+  const includeReports = exportMode === 'full' || exportMode === 'reports-only';
+
+  // Reports still list excluded files; only the files themselves are left out.
+  for (const file of files) {
+    if (file.excludedFromExport) continue;
+    if (file.outputPath.startsWith('706/')) {
+      if (include706) {
+        entries.push({ path: file.outputPath, file: file.file });
+      }
+      continue;
+    }
+    if (file.outputPath.startsWith('DUPLICATES/')) {
+      if (includeDuplicates) {
+        entries.push({ path: file.outputPath, file: file.file });
+      }
+    }
+  }
+
+  if (includeReports) {
+    entries.push({ path: 'STATE/report.csv', file: reportCsv });
+    entries.push({ path: 'STATE/manifest.json', file: manifestJson });
+    entries.push({ path: 'STATE/duplicates.csv', file: duplicatesCsv });
+    entries.push({ path: 'STATE/inventory.csv', file: inventoryCsv });
+    entries.push({ path: 'STATE/valuation_gaps.csv', file: valuationGapsCsv });
+    if (changesCsv !== undefined) {
+      entries.push({ path: 'STATE/changes.csv', file: changesCsv });
+    }
+
+    for (const [hashPrefix, paths] of Object.entries(sourcePaths)) {
+      entries.push({
+        path: `STATE/_source_paths/${hashPrefix}.txt`,
+        file: `${paths.join('\n')}\n`,
+      });
+    }
+  }
+
+  return entries;
+}
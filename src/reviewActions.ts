@@ -0,0 +1,129 @@
+// src/reviewActions.ts
+// Reviewer actions on the review queue: overrides, one file at a time or in bulk, and leaving
+// files out of the export. Each is logged with the reviewer and time and what it replaced, so
+// the latest action can be undone, then the one before it, and so on.
+
+import type { ProcessedFile } from './reports';
+import { getScheduleLabel } from './scheduleConfig';
+import type { ScheduleDefinition, ScheduleId } from './schedules';
+import { workspaceKey } from './storage';
+
+/** The schedule "Mark as Admin" assigns. */
+export const ADMIN_SCHEDULE_ID = 'Admin_General';
+
+export type ReviewActionKind = 'assign' | 'clear' | 'exclude' | 'include';
+
+export interface ReviewAction {
+  id: number;
+  kind: ReviewActionKind;
+  /** For `assign`. */
+  scheduleId?: ScheduleId;
+  hashes: string[];
+  at: string;
+  reviewerName?: string;
+  /** Each file's override (absent if none) and export state before the action. */
+  before: Record<string, { override?: ScheduleId; excluded: boolean }>;
+  undoneAt?: string;
+  undoneBy?: string;
+}
+
+/** What reviewer actions decide: an override per hash, and the hashes left out of the export. */
+export interface ReviewState {
+  overrides: Record<string, ScheduleId>;
+  excluded: string[];
+}
+
+export interface ReviewActions {
+  log: ReviewAction[];
+  excluded: string[];
+}
+
+const ACTIONS_KEY = 'estate706.reviewActions.v1';
+
+export function loadReviewActions(): ReviewActions {
+  const raw = localStorage.getItem(workspaceKey(ACTIONS_KEY));
+  if (!raw) return { log: [], excluded: [] };
+  try {
+    const parsed = JSON.parse(raw) as ReviewActions;
+    return Array.isArray(parsed.log) && Array.isArray(parsed.excluded) ? parsed : { log: [], excluded: [] };
+  } catch {
+    return { log: [], excluded: [] };
+  }
+}
+
+export function saveReviewActions(actions: ReviewActions): void {
+  localStorage.setItem(workspaceKey(ACTIONS_KEY), JSON.stringify(actions, null, 2));
+}
+
+/** One line for the actions log, e.g. "Assigned 3 file(s) to Schedule A". */
+export function describeReviewAction(action: ReviewAction, schedules: ScheduleDefinition[]): string {
+  const count = `${action.hashes.length} file(s)`;
+  if (action.kind === 'assign') return `Assigned ${count} to ${getScheduleLabel(action.scheduleId ?? '', schedules)}`;
+  if (action.kind === 'clear') return `Cleared the override on ${count}`;
+  if (action.kind === 'exclude') return `Excluded ${count} from export`;
+  return `Included ${count} in export again`;
+}
+
+/** Applies an action to `state` and appends it, with what it replaced, to `log`. */
+export function recordReviewAction(
+  state: ReviewState,
+  log: ReviewAction[],
+  change: Pick<ReviewAction, 'kind' | 'scheduleId' | 'hashes' | 'at' | 'reviewerName'>
+): { state: ReviewState; log: ReviewAction[] } {
+  const overrides = { ...state.overrides };
+  const excluded = new Set(state.excluded);
+  const before: ReviewAction['before'] = {};
+  for (const hash of change.hashes) {
+    before[hash] = { override: state.overrides[hash], excluded: excluded.has(hash) };
+    if (change.kind === 'assign' && change.scheduleId) overrides[hash] = change.scheduleId;
+    if (change.kind === 'clear') delete overrides[hash];
+    if (change.kind === 'exclude') excluded.add(hash);
+    if (change.kind === 'include') excluded.delete(hash);
+  }
+  const action: ReviewAction = { ...change, id: (log[log.length - 1]?.id ?? 0) + 1, before };
+  return { state: { overrides, excluded: [...excluded] }, log: [...log, action] };
+}
+
+/** The action Undo would reverse: the latest one not yet undone. */
+export function getUndoableAction(log: ReviewAction[]): ReviewAction | undefined {
+  return [...log].reverse().find((action) => !action.undoneAt);
+}
+
+/** Puts back what the latest action replaced and marks it undone by `reviewerName` at `at`. */
+export function undoReviewAction(
+  state: ReviewState,
+  log: ReviewAction[],
+  at: string,
+  reviewerName?: string
+): { state: ReviewState; log: ReviewAction[] } {
+  const action = getUndoableAction(log);
+  if (!action) return { state, log };
+  const overrides = { ...state.overrides };
+  const excluded = new Set(state.excluded);
+  for (const [hash, previous] of Object.entries(action.before)) {
+    if (previous.override) {
+      overrides[hash] = previous.override;
+    } else {
+      delete overrides[hash];
+    }
+    if (previous.excluded) {
+      excluded.add(hash);
+    } else {
+      excluded.delete(hash);
+    }
+  }
+  return {
+    state: { overrides, excluded: [...excluded] },
+    log: log.map((entry) => (entry === action ? { ...entry, undoneAt: at, undoneBy: reviewerName } : entry)),
+  };
+}
+
+/** Flags every copy of an excluded file so exports and binders leave it out. */
+export function applyExportExclusions(files: ProcessedFile[], excluded: string[]): ProcessedFile[] {
+  const hashes = new Set(excluded);
+  return files.map((file) =>
+    hashes.has(file.hash) === Boolean(file.excludedFromExport)
+      ? file
+      : { ...file, excludedFromExport: hashes.has(file.hash) || undefined }
+  );
+}
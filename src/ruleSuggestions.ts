@@ -0,0 +1,178 @@
+// src/ruleSuggestions.ts
+// Rule suggestions learned from reviewer overrides. Words and two-word phrases common to the
+// files a reviewer had to put in a schedule, but rare in the other files, are suggested as new
+// keywords for it, or as a higher weight where the schedule already has them. Each suggestion
+// comes with the config it would save and its effect on the current results.
+
+import type { ScannedDetectionThresholds } from './classify';
+import type { ModelBlend } from './localModel';
+import { normalizeText } from './normalize';
+import type { ProcessedFile } from './reports';
+import { previewRulesImpact, reclassifyFile, type RulesImpact } from './rulesPreview';
+import { compileScheduleConfig, type CompiledScheduleConfig, type ScheduleConfig } from './scheduleConfig';
+import type { ScheduleId } from './schedules';
+
+export type RuleSuggestionKind = 'add_keyword' | 'raise_weight';
+
+export interface RuleSuggestionEffect {
+  /** Overridden files with text whose schedule the rules alone get right, now and with the suggestion. */
+  overridesMatchedBefore: number;
+  overridesMatchedAfter: number;
+  overrides: number;
+  /** Files without an override that the suggestion would move. */
+  impact: RulesImpact;
+}
+
+export interface RuleSuggestion {
+  kind: RuleSuggestionKind;
+  scheduleId: ScheduleId;
+  term: string;
+  weight: number;
+  /** For `raise_weight`. */
+  previousWeight?: number;
+  /** Overridden files the rules missed that contain the term, out of `examples`. */
+  support: number;
+  examples: number;
+  /** Files with text placed elsewhere that contain it, out of `others`. */
+  elsewhere: number;
+  others: number;
+  /** The saved rules with this suggestion applied. */
+  config: ScheduleConfig;
+  effect: RuleSuggestionEffect;
+}
+
+const MIN_SUPPORT = 2;
+const MAX_SUGGESTIONS_PER_SCHEDULE = 3;
+const NEW_KEYWORD_WEIGHT = 6;
+const WEIGHT_STEP = 4;
+// A term must be at least this many times more common in the examples than elsewhere.
+const MIN_LIFT = 3;
+
+const STOP_WORDS = new Set(
+  (
+    'about also been before being could dear from have here into more only other page please ' +
+    'same should some such than thank that their them then there these they this those very ' +
+    'were what when where which will with would your yours'
+  ).split(' ')
+);
+
+function isContentWord(word: string, minLength: number): boolean {
+  return word.length >= minLength && /[a-z]/.test(word) && !STOP_WORDS.has(word);
+}
+
+/** Distinct words of four letters or more and two-word phrases in `text`, normalized. */
+function extractTerms(text: string): Set<string> {
+  const words = normalizeText(text).split(' ');
+  const terms = new Set<string>();
+  words.forEach((word, index) => {
+    if (isContentWord(word, 4)) terms.add(word);
+    const next = words[index + 1];
+    if (next && isContentWord(word, 3) && isContentWord(next, 3)) terms.add(`${word} ${next}`);
+  });
+  return terms;
+}
+
+function textOf(file: ProcessedFile): string {
+  return file.decision === 'duplicate' ? '' : (file.text ?? '').trim();
+}
+
+function withSuggestion(config: ScheduleConfig, scheduleId: ScheduleId, term: string, weight: number): ScheduleConfig {
+  return {
+    ...config,
+    schedules: config.schedules.map((schedule) => {
+      if (schedule.id !== scheduleId) return schedule;
+      const update = (terms: ScheduleConfig['schedules'][number]['keywords']) =>
+        terms.map((entry) => (normalizeText(entry.term) === term ? { ...entry, weight } : entry));
+      const existing = [...schedule.keywords, ...schedule.smallTerms].some(
+        (entry) => normalizeText(entry.term) === term
+      );
+      return existing
+        ? { ...schedule, keywords: update(schedule.keywords), smallTerms: update(schedule.smallTerms) }
+        : { ...schedule, keywords: [...schedule.keywords, { term, weight }] };
+    }),
+  };
+}
+
+function countMatched(
+  overridden: ProcessedFile[],
+  config: CompiledScheduleConfig,
+  thresholds: ScannedDetectionThresholds,
+  model?: ModelBlend
+): number {
+  return overridden.filter((file) => reclassifyFile(file, config, thresholds, model).schedule === file.schedule).length;
+}
+
+/**
+ * Suggestions for every schedule with at least two overridden files the rules alone do not put
+ * there, best first within each schedule. Only files whose text is kept with the results count:
+ * files overridden before the sort are not read.
+ */
+export function suggestRuleChanges(
+  files: ProcessedFile[],
+  config: ScheduleConfig,
+  thresholds: ScannedDetectionThresholds,
+  model?: ModelBlend
+): RuleSuggestion[] {
+  const compiled = compileScheduleConfig(config);
+  const overridden = files.filter((file) => file.overrideApplied && file.schedule && textOf(file));
+  const overridesMatchedBefore = countMatched(overridden, compiled, thresholds, model);
+  const missed = overridden.filter(
+    (file) => reclassifyFile(file, compiled, thresholds, model).schedule !== file.schedule
+  );
+  const termsByHash = new Map(files.filter(textOf).map((file) => [file.hash, extractTerms(textOf(file))]));
+
+  const suggestions: RuleSuggestion[] = [];
+  for (const schedule of config.schedules) {
+    const examples = missed.filter((file) => file.schedule === schedule.id);
+    if (examples.length < MIN_SUPPORT) continue;
+    const others = files.filter((file) => textOf(file) && file.schedule !== schedule.id);
+    const negatives = new Set((schedule.negativeTerms ?? []).map((entry) => normalizeText(entry.term)));
+    const current = new Map(
+      [...schedule.keywords, ...schedule.smallTerms].map((entry) => [normalizeText(entry.term), entry.weight])
+    );
+
+    const support = new Map<string, number>();
+    for (const file of examples) {
+      for (const term of termsByHash.get(file.hash) ?? []) support.set(term, (support.get(term) ?? 0) + 1);
+    }
+    const candidates = [...support]
+      .filter(([term, count]) => count >= MIN_SUPPORT && !negatives.has(term))
+      .map(([term, count]) => {
+        const elsewhere = others.filter((file) => termsByHash.get(file.hash)?.has(term)).length;
+        const share = count / examples.length;
+        const otherShare = others.length > 0 ? elsewhere / others.length : 0;
+        return { term, count, elsewhere, share, lift: share - otherShare, otherShare };
+      })
+      .filter((candidate) => candidate.otherShare * MIN_LIFT <= candidate.share)
+      .sort(
+        (a, b) => b.lift - a.lift || b.term.split(' ').length - a.term.split(' ').length || a.term.localeCompare(b.term)
+      )
+      .slice(0, MAX_SUGGESTIONS_PER_SCHEDULE);
+
+    for (const candidate of candidates) {
+      const previousWeight = current.get(candidate.term);
+      const weight = previousWeight === undefined ? NEW_KEYWORD_WEIGHT : previousWeight + WEIGHT_STEP;
+      const suggested = withSuggestion(config, schedule.id, candidate.term, weight);
+      const suggestedCompiled = compileScheduleConfig(suggested);
+      suggestions.push({
+        kind: previousWeight === undefined ? 'add_keyword' : 'raise_weight',
+        scheduleId: schedule.id,
+        term: candidate.term,
+        weight,
+        previousWeight,
+        support: candidate.count,
+        examples: examples.length,
+        elsewhere: candidate.elsewhere,
+        others: others.length,
+        config: suggested,
+        effect: {
+          overridesMatchedBefore,
+          overridesMatchedAfter: countMatched(overridden, suggestedCompiled, thresholds, model),
+          overrides: overridden.length,
+          impact: previewRulesImpact(files, suggestedCompiled, thresholds, model),
+        },
+      });
+    }
+  }
+  return suggestions;
+}
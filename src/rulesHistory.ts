@@ -0,0 +1,277 @@
+// src/rulesHistory.ts
+// Versioned rules history: a full config snapshot for every save, reset and restore, and
+// term-by-term / rule-by-rule diffs between any two versions.
+
+import type { FilenameRuleConfig, PathRuleConfig, ScheduleConfig } from './scheduleConfig';
+import type { ScheduleDefinition, WeightedTerm } from './schedules';
+import { workspaceKey } from './storage';
+
+export type RulesChangeAction = 'baseline' | 'save' | 'reset' | 'restore';
+
+export interface RulesVersion {
+  version: number;
+  savedAt: string;
+  editorName?: string;
+  action: RulesChangeAction;
+  /** SHA-256 of the config JSON; also the key of its snapshot. */
+  hash: string;
+  /** For restores: the version that was brought back. */
+  restoredFrom?: number;
+}
+
+/** Snapshots are stored once per distinct config, so restoring or undoing adds no copy. */
+export interface RulesHistory {
+  versions: RulesVersion[];
+  snapshots: Record<string, ScheduleConfig>;
+}
+
+export type RulesDiffKind =
+  | 'schedule'
+  | 'keyword'
+  | 'smallTerm'
+  | 'negativeTerm'
+  | 'requiredTerm'
+  | 'proximityTerm'
+  | 'regexTerm'
+  | 'filenameRule'
+  | 'pathRule';
+
+export interface RulesDiffEntry {
+  kind: RulesDiffKind;
+  change: 'added' | 'removed' | 'changed';
+  /** Schedule the term belongs to; for schedules and rules, the schedule itself. */
+  scheduleId: string;
+  /** The term, the rule pattern, or for schedules the changed property. */
+  item: string;
+  before?: string;
+  after?: string;
+}
+
+const HISTORY_KEY = 'estate706.rulesHistory.v1';
+
+export function loadRulesHistory(): RulesHistory {
+  const raw = localStorage.getItem(workspaceKey(HISTORY_KEY));
+  if (!raw) return { versions: [], snapshots: {} };
+  try {
+    const parsed = JSON.parse(raw) as RulesHistory;
+    return Array.isArray(parsed.versions) && parsed.snapshots ? parsed : { versions: [], snapshots: {} };
+  } catch {
+    return { versions: [], snapshots: {} };
+  }
+}
+
+export function saveRulesHistory(history: RulesHistory): void {
+  localStorage.setItem(workspaceKey(HISTORY_KEY), JSON.stringify(history));
+}
+
+/**
+ * Adds a version for `config`. The first change also records the config it replaced as a
+ * `baseline` version, so the rules in use before history began can be restored.
+ */
+export function appendRulesVersion(
+  history: RulesHistory,
+  change: Omit<RulesVersion, 'version'> & { config: ScheduleConfig },
+  previous?: { hash: string; config: ScheduleConfig }
+): RulesHistory {
+  const versions = [...history.versions];
+  const snapshots = { ...history.snapshots };
+  if (versions.length === 0 && previous) {
+    versions.push({ version: 1, savedAt: change.savedAt, action: 'baseline', hash: previous.hash });
+    snapshots[previous.hash] = previous.config;
+  }
+  const { config, ...version } = change;
+  versions.push({ ...version, version: versions.length + 1 });
+  snapshots[change.hash] = config;
+  return { versions, snapshots };
+}
+
+export function getRulesSnapshot(history: RulesHistory, version: number): ScheduleConfig | undefined {
+  const entry = history.versions.find((item) => item.version === version);
+  return entry ? history.snapshots[entry.hash] : undefined;
+}
+
+function diffTerms(
+  kind: RulesDiffKind,
+  scheduleId: string,
+  before: WeightedTerm[],
+  after: WeightedTerm[]
+): RulesDiffEntry[] {
+  const beforeWeights = new Map(before.map((term) => [term.term, term.weight]));
+  const afterWeights = new Map(after.map((term) => [term.term, term.weight]));
+  const entries: RulesDiffEntry[] = [];
+  for (const [term, weight] of beforeWeights) {
+    const next = afterWeights.get(term);
+    if (next === undefined) {
+      entries.push({ kind, change: 'removed', scheduleId, item: term, before: String(weight) });
+    } else if (next !== weight) {
+      entries.push({ kind, change: 'changed', scheduleId, item: term, before: String(weight), after: String(next) });
+    }
+  }
+  for (const [term, weight] of afterWeights) {
+    if (!beforeWeights.has(term)) {
+      entries.push({ kind, change: 'added', scheduleId, item: term, after: String(weight) });
+    }
+  }
+  return entries;
+}
+
+// Every weighted term of a schedule by kind, with proximity and regex terms keyed by a readable
+// description so they diff like plain terms. Required terms have no weight.
+function weightedTermsOf(schedule: ScheduleDefinition): [RulesDiffKind, WeightedTerm[]][] {
+  return [
+    ['keyword', schedule.keywords],
+    ['smallTerm', schedule.smallTerms],
+    ['negativeTerm', schedule.negativeTerms ?? []],
+    [
+      'proximityTerm',
+      (schedule.proximityTerms ?? []).map((term) => ({
+        term: `"${term.terms[0]}" within ${term.within} words of "${term.terms[1]}"`,
+        weight: term.weight,
+      })),
+    ],
+    ['regexTerm', (schedule.regexTerms ?? []).map((term) => ({ term: term.pattern, weight: term.weight }))],
+  ];
+}
+
+function diffScheduleTerms(scheduleId: string, before: ScheduleDefinition | null, after: ScheduleDefinition) {
+  const beforeLists = new Map(before ? weightedTermsOf(before) : []);
+  const entries = weightedTermsOf(after).flatMap(([kind, terms]) =>
+    diffTerms(kind, scheduleId, beforeLists.get(kind) ?? [], terms)
+  );
+  const beforeRequired = new Set(before?.requiredTerms ?? []);
+  const afterRequired = new Set(after.requiredTerms ?? []);
+  for (const term of beforeRequired) {
+    if (!afterRequired.has(term)) entries.push({ kind: 'requiredTerm', change: 'removed', scheduleId, item: term });
+  }
+  for (const term of afterRequired) {
+    if (!beforeRequired.has(term)) entries.push({ kind: 'requiredTerm', change: 'added', scheduleId, item: term });
+  }
+  return entries;
+}
+
+function describePathRule(rule: PathRuleConfig): string {
+  return rule.mode === 'boost' ? `${rule.schedule} (boost ${rule.weight ?? 0})` : `${rule.schedule} (assign)`;
+}
+
+// Filename rules without a mode or priority predate both, so they read as just their schedule.
+function describeFilenameRule(rule: FilenameRuleConfig): string {
+  const mode = rule.mode === 'boost' ? ` (boost ${rule.weight ?? 0})` : '';
+  return `${rule.schedule}${mode}${rule.priority ? `, priority ${rule.priority}` : ''}`;
+}
+
+// Rules are matched by pattern; a rule whose description (its schedule, mode, weight and
+// priority) differs is reported as changed.
+function diffRules<T extends { pattern: string; schedule: string }>(
+  kind: RulesDiffKind,
+  before: T[],
+  after: T[],
+  describe: (rule: T) => string
+): RulesDiffEntry[] {
+  const entries: RulesDiffEntry[] = [];
+  const afterRules = after.map((rule, index) => ({ rule, index }));
+  const matched = new Set<number>();
+  for (const rule of before) {
+    const next = afterRules.find(
+      (candidate) => candidate.rule.pattern === rule.pattern && !matched.has(candidate.index)
+    );
+    if (!next) {
+      entries.push({ kind, change: 'removed', scheduleId: rule.schedule, item: rule.pattern, before: describe(rule) });
+      continue;
+    }
+    matched.add(next.index);
+    if (describe(next.rule) !== describe(rule)) {
+      entries.push({
+        kind,
+        change: 'changed',
+        scheduleId: next.rule.schedule,
+        item: rule.pattern,
+        before: describe(rule),
+        after: describe(next.rule),
+      });
+    }
+  }
+  for (const { rule, index } of afterRules) {
+    if (!matched.has(index)) {
+      entries.push({ kind, change: 'added', scheduleId: rule.schedule, item: rule.pattern, after: describe(rule) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Differences from `before` to `after`: schedules added, removed or relabelled; additions,
+ * removals and weight changes of each kind of term per schedule; filename and path rules
+ * added, removed, pointed at another schedule or given another mode, weight or priority.
+ */
+export function diffScheduleConfigs(before: ScheduleConfig, after: ScheduleConfig): RulesDiffEntry[] {
+  const entries: RulesDiffEntry[] = [];
+  const afterById = new Map(after.schedules.map((schedule) => [schedule.id, schedule]));
+  const beforeIds = new Set(before.schedules.map((schedule) => schedule.id));
+
+  for (const schedule of before.schedules) {
+    const next = afterById.get(schedule.id);
+    if (!next) {
+      entries.push({
+        kind: 'schedule',
+        change: 'removed',
+        scheduleId: schedule.id,
+        item: schedule.id,
+        before: schedule.label,
+      });
+      continue;
+    }
+    for (const property of ['label', 'folder'] as const) {
+      if ((schedule[property] ?? '') !== (next[property] ?? '')) {
+        entries.push({
+          kind: 'schedule',
+          change: 'changed',
+          scheduleId: schedule.id,
+          item: property,
+          before: schedule[property] ?? '',
+          after: next[property] ?? '',
+        });
+      }
+    }
+    entries.push(...diffScheduleTerms(schedule.id, schedule, next));
+  }
+  for (const schedule of after.schedules) {
+    if (beforeIds.has(schedule.id)) continue;
+    entries.push({
+      kind: 'schedule',
+      change: 'added',
+      scheduleId: schedule.id,
+      item: schedule.id,
+      after: schedule.label,
+    });
+    entries.push(...diffScheduleTerms(schedule.id, null, schedule));
+  }
+
+  entries.push(...diffRules('filenameRule', before.filenameRules, after.filenameRules, describeFilenameRule));
+  entries.push(...diffRules('pathRule', before.pathRules ?? [], after.pathRules ?? [], describePathRule));
+  return entries;
+}
+
+const DIFF_NOUNS: Record<RulesDiffKind, [string, string]> = {
+  schedule: ['schedule', 'schedules'],
+  keyword: ['keyword', 'keywords'],
+  smallTerm: ['small term', 'small terms'],
+  negativeTerm: ['negative term', 'negative terms'],
+  requiredTerm: ['required term', 'required terms'],
+  proximityTerm: ['proximity term', 'proximity terms'],
+  regexTerm: ['regex term', 'regex terms'],
+  filenameRule: ['filename rule', 'filename rules'],
+  pathRule: ['path rule', 'path rules'],
+};
+
+/** One line for the audit trail, e.g. "2 keywords added, 1 filename rule changed". */
+export function summarizeRulesDiff(entries: RulesDiffEntry[]): string {
+  if (entries.length === 0) return 'No changes';
+  const counts = new Map<string, { entry: RulesDiffEntry; count: number }>();
+  for (const entry of entries) {
+    const key = `${entry.kind}:${entry.change}`;
+    counts.set(key, { entry, count: (counts.get(key)?.count ?? 0) + 1 });
+  }
+  return [...counts.values()]
+    .map(({ entry, count }) => `${count} ${DIFF_NOUNS[entry.kind][count === 1 ? 0 : 1]} ${entry.change}`)
+    .join(', ');
+}
@@ -0,0 +1,145 @@
+// src/rulesPreview.ts
+// "Preview impact" for a draft rules config: re-classifies the text already extracted for the
+// current results with the draft and lists the files whose decision or schedule would change,
+// without reading any file again.
+
+import {
+  classifyDocument,
+  withOcrPageCap,
+  type ClassificationResult,
+  type ScannedDetectionThresholds,
+} from './classify';
+import type { ModelBlend } from './localModel';
+import type { ProcessedFile } from './reports';
+import type { CompiledScheduleConfig } from './scheduleConfig';
+
+type Placement = Pick<ProcessedFile, 'decision' | 'schedule' | 'candidate' | 'reason' | 'score'>;
+
+export interface RulesImpactEntry {
+  hash: string;
+  relativePath: string;
+  before: Placement;
+  after: ClassificationResult;
+}
+
+export interface RulesImpact {
+  changed: RulesImpactEntry[];
+  /** Files re-classified to the same decision and schedule. */
+  unchanged: number;
+  /**
+   * Files the draft cannot be tried on: reviewer overrides (which win over any rules), files
+   * that were never read, and decisions reused from a manifest that did not keep their text.
+   */
+  skipped: number;
+}
+
+const UNREAD_REASONS = ['file_too_large', 'pdf_parse_error', 'processing_error'];
+
+function isPdf(file: ProcessedFile): boolean {
+  return file.name.toLowerCase().endsWith('.pdf');
+}
+
+function isPreviewable(file: ProcessedFile): boolean {
+  if (file.decision === 'duplicate' || file.overrideApplied || file.text === undefined) return false;
+  return !UNREAD_REASONS.some((reason) => file.reason.startsWith(reason));
+}
+
+/** What `config` alone would decide for `file`, from the text kept with the results. */
+export function reclassifyFile(
+  file: ProcessedFile,
+  config: CompiledScheduleConfig,
+  scannedThresholds: ScannedDetectionThresholds,
+  model?: ModelBlend
+): ClassificationResult {
+  return withOcrPageCap(
+    classifyDocument({
+      filename: file.name,
+      relativePath: file.relativePath,
+      text: file.text ?? '',
+      isPdf: isPdf(file),
+      config,
+      pdfMetrics: file.pdfMetrics,
+      scannedThresholds,
+      textSource: file.textSource,
+      model,
+    }),
+    file.ocr
+  );
+}
+
+/**
+ * Re-runs classifyDocument on every previewable file with `config`. Duplicates are not
+ * classified themselves; they follow the file they duplicate, as in a full run.
+ */
+export function previewRulesImpact(
+  files: ProcessedFile[],
+  config: CompiledScheduleConfig,
+  scannedThresholds: ScannedDetectionThresholds,
+  model?: ModelBlend
+): RulesImpact {
+  const impact: RulesImpact = { changed: [], unchanged: 0, skipped: 0 };
+  for (const file of files) {
+    if (!isPreviewable(file)) {
+      if (file.decision !== 'duplicate') impact.skipped += 1;
+      continue;
+    }
+    const after = reclassifyFile(file, config, scannedThresholds, model);
+    if (after.decision === file.decision && after.schedule === file.schedule) {
+      impact.unchanged += 1;
+      continue;
+    }
+    impact.changed.push({
+      hash: file.hash,
+      relativePath: file.relativePath,
+      before: {
+        decision: file.decision,
+        schedule: file.schedule,
+        candidate: file.candidate,
+        reason: file.reason,
+        score: file.score,
+      },
+      after,
+    });
+  }
+  return impact;
+}
+
+/**
+ * Applies a previewed impact to the results, as if they had been sorted with the draft rules.
+ * Byte-identical duplicates take the new schedule of their kept copy. Output paths are not
+ * updated; run assignOutputPaths with the new schedules afterwards.
+ */
+export function applyRulesImpact(files: ProcessedFile[], impact: RulesImpact): ProcessedFile[] {
+  const byHash = new Map(impact.changed.map((entry) => [entry.hash, entry.after]));
+  return files.map((file) => {
+    const after = byHash.get(file.hash);
+    if (!after) return file;
+    if (file.decision === 'duplicate') {
+      return file.reason === 'sha256_duplicate'
+        ? {
+            ...file,
+            schedule: after.schedule,
+            candidate: after.candidate,
+            score: after.score,
+            scores: after.scores,
+            matches: after.matches,
+            modelVote: after.modelVote,
+            modelConfidence: after.modelConfidence,
+          }
+        : file;
+    }
+    return {
+      ...file,
+      decision: after.decision,
+      schedule: after.schedule,
+      candidate: after.candidate,
+      reason: after.reason,
+      score: after.score,
+      scores: after.scores,
+      matches: after.matches,
+      modelVote: after.modelVote,
+      modelConfidence: after.modelConfidence,
+      textSample: after.decision === 'review' ? (file.text ?? '').slice(0, 200) : undefined,
+    };
+  });
+}
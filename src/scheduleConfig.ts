@@ -1,30 +1,55 @@
+import { hashArrayBuffer } from './hash';
+import type { RulesChangeAction } from './rulesHistory';
 import defaultConfig from './schedules.json';
-import type { FilenameRule, ScheduleDefinition, ScheduleId } from './schedules';
+import type { FilenameRule, PathRule, RuleMode, ScheduleDefinition, ScheduleId } from './schedules';
+import { DEFAULT_WORKSPACE_ID, getActiveWorkspaceId, workspaceKey } from './storage';
 
 export interface FilenameRuleConfig {
   pattern: string;
   schedule: ScheduleId;
+  /** Defaults to `assign`. */
+  mode?: RuleMode;
+  /** Points added to the schedule's score in `boost` mode. */
+  weight?: number;
+  /** Rules with a higher priority are tried first; equal priorities keep their order. Defaults to 0. */
+  priority?: number;
+}
+
+/** Matched against each folder in a file's relative path, nearest folder first. */
+export interface PathRuleConfig {
+  pattern: string;
+  schedule: ScheduleId;
+  mode: RuleMode;
+  /** Points added to the schedule's score in `boost` mode. */
+  weight?: number;
 }
 
 export interface ScheduleConfig {
   schedules: ScheduleDefinition[];
   filenameRules: FilenameRuleConfig[];
+  pathRules?: PathRuleConfig[];
 }
 
 export interface CompiledScheduleConfig {
   schedules: ScheduleDefinition[];
   filenameRules: FilenameRule[];
+  pathRules: PathRule[];
 }
 
 export interface RulesAuditEntry {
   timestamp: string;
   editorName?: string;
   summary: string;
+  /** SHA-256 of the config JSON before and after the change. */
   beforeHash: string;
   afterHash: string;
+  /** Entries written before rules history existed have neither. */
+  action?: RulesChangeAction;
+  version?: number;
 }
 
-const STORAGE_KEY = 'estate706.scheduleConfig.v1';
+const STORAGE_KEY = 'estate706.scheduleConfig.v2';
+const LEGACY_STORAGE_KEY = 'estate706.scheduleConfig.v1';
 const AUDIT_KEY = 'estate706.rulesAudit.v1';
 const EDITOR_KEY = 'estate706.rulesEditorName.v1';
 const OVERRIDES_KEY = 'estate706.reviewOverrides.v1';
@@ -41,92 +66,390 @@ export function setStoredEditorName(name: string): void {
   localStorage.setItem(EDITOR_KEY, name);
 }
 
-export function validateScheduleConfig(raw: unknown): { config?: ScheduleConfig; errors: string[] } {
+const RESERVED_FOLDERS = new Set(['reviewneeded', 'unknown']);
+
+function validateFolderName(folder: string): string | null {
+  if (!folder.trim()) return 'must not be empty.';
+  if (/[\\/:*?"<>|]/.test(folder)) return 'must not contain any of \\ / : * ? " < > |.';
+  if (folder === '.' || folder === '..') return 'is not a valid folder name.';
+  if (RESERVED_FOLDERS.has(folder.toLowerCase())) return 'is reserved for review output.';
+  return null;
+}
+
+/**
+ * A validation problem tied to the field that caused it, for showing next to that field.
+ * `path` is dot-separated: `schedules.2.keywords.0.weight`, `filenameRules.1.pattern`, or
+ * `''` for the config as a whole.
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export function validateScheduleConfig(raw: unknown): {
+  config?: ScheduleConfig;
+  errors: string[];
+  issues: ConfigIssue[];
+} {
   const errors: string[] = [];
+  const issues: ConfigIssue[] = [];
+  // `error` reads on its own, for the JSON view and the CLI; `message` reads next to the field.
+  const report = (path: string, error: string, message = error) => {
+    errors.push(error);
+    issues.push({ path, message });
+  };
   if (!raw || typeof raw !== 'object') {
-    return { errors: ['Config must be an object.'] };
+    report('', 'Config must be an object.');
+    return { errors, issues };
   }
   const candidate = raw as ScheduleConfig;
   if (!Array.isArray(candidate.schedules)) {
-    errors.push('Config.schedules must be an array.');
+    report('schedules', 'Config.schedules must be an array.');
   }
   if (!Array.isArray(candidate.filenameRules)) {
-    errors.push('Config.filenameRules must be an array.');
+    report('filenameRules', 'Config.filenameRules must be an array.');
   }
 
   const schedules = Array.isArray(candidate.schedules) ? candidate.schedules : [];
   const filenameRules = Array.isArray(candidate.filenameRules) ? candidate.filenameRules : [];
+  if (Array.isArray(candidate.schedules) && schedules.length === 0) {
+    report('schedules', 'Config.schedules must define at least one schedule.');
+  }
 
+  const seenIds = new Set<string>();
+  const seenFolders = new Set<string>();
   for (const [index, schedule] of schedules.entries()) {
+    const path = `schedules.${index}`;
     if (!schedule || typeof schedule !== 'object') {
-      errors.push(`Schedule at index ${index} must be an object.`);
+      report(path, `Schedule at index ${index} must be an object.`);
       continue;
     }
     if (typeof schedule.id !== 'string' || !schedule.id) {
-      errors.push(`Schedule at index ${index} is missing a valid id.`);
+      report(`${path}.id`, `Schedule at index ${index} is missing a valid id.`, 'Enter an id.');
+    } else if (seenIds.has(schedule.id)) {
+      report(`${path}.id`, `Schedule id "${schedule.id}" is used more than once.`, 'Another schedule has this id.');
+    } else {
+      seenIds.add(schedule.id);
     }
     if (typeof schedule.label !== 'string' || !schedule.label) {
-      errors.push(`Schedule at index ${index} is missing a valid label.`);
+      report(`${path}.label`, `Schedule at index ${index} is missing a valid label.`, 'Enter a label.');
     }
-    if (!Array.isArray(schedule.keywords)) {
-      errors.push(`Schedule "${schedule.id}" keywords must be an array.`);
-    }
-    if (!Array.isArray(schedule.smallTerms)) {
-      errors.push(`Schedule "${schedule.id}" smallTerms must be an array.`);
+    if (schedule.folder !== undefined && typeof schedule.folder !== 'string') {
+      report(`${path}.folder`, `Schedule "${schedule.id}" folder must be a string.`, 'Folder must be text.');
+    } else if (typeof schedule.id === 'string' && schedule.id) {
+      const folder = schedule.folder ?? schedule.id;
+      const folderError = validateFolderName(folder);
+      if (folderError) {
+        report(
+          `${path}.folder`,
+          `Schedule "${schedule.id}" folder "${folder}" ${folderError}`,
+          `Folder ${folderError}`
+        );
+      } else if (seenFolders.has(folder.toLowerCase())) {
+        report(
+          `${path}.folder`,
+          `Schedule "${schedule.id}" folder "${folder}" is used by another schedule.`,
+          'Another schedule writes to this folder.'
+        );
+      } else {
+        seenFolders.add(folder.toLowerCase());
+      }
     }
-    for (const [termIndex, keyword] of (schedule.keywords ?? []).entries()) {
-      if (typeof keyword.term !== 'string') {
-        errors.push(`Schedule "${schedule.id}" keyword ${termIndex} term must be a string.`);
+    for (const list of ['keywords', 'smallTerms', 'negativeTerms'] as const) {
+      if (list === 'negativeTerms' && schedule[list] === undefined) continue;
+      if (!Array.isArray(schedule[list])) {
+        report(`${path}.${list}`, `Schedule "${schedule.id}" ${list} must be an array.`);
+        continue;
       }
-      if (typeof keyword.weight !== 'number' || Number.isNaN(keyword.weight)) {
-        errors.push(`Schedule "${schedule.id}" keyword ${termIndex} weight must be a number.`);
+      const noun = list.replace(/s$/, '');
+      for (const [termIndex, keyword] of schedule[list].entries()) {
+        const termPath = `${path}.${list}.${termIndex}`;
+        if (typeof keyword.term !== 'string') {
+          report(`${termPath}.term`, `Schedule "${schedule.id}" ${noun} ${termIndex} term must be a string.`);
+        } else if (!keyword.term.trim()) {
+          report(
+            `${termPath}.term`,
+            `Schedule "${schedule.id}" ${noun} ${termIndex} term must not be empty.`,
+            'Enter a term.'
+          );
+        }
+        if (typeof keyword.weight !== 'number' || Number.isNaN(keyword.weight)) {
+          report(
+            `${termPath}.weight`,
+            `Schedule "${schedule.id}" ${noun} ${termIndex} weight must be a number.`,
+            'Weight must be a number.'
+          );
+        } else if (list === 'negativeTerms' && keyword.weight >= 0) {
+          report(
+            `${termPath}.weight`,
+            `Schedule "${schedule.id}" negativeTerm ${termIndex} weight must be below 0.`,
+            'Weight must be below 0.'
+          );
+        }
       }
     }
-    for (const [termIndex, keyword] of (schedule.smallTerms ?? []).entries()) {
-      if (typeof keyword.term !== 'string') {
-        errors.push(`Schedule "${schedule.id}" smallTerm ${termIndex} term must be a string.`);
+    if (schedule.requiredTerms !== undefined) {
+      if (!Array.isArray(schedule.requiredTerms)) {
+        report(`${path}.requiredTerms`, `Schedule "${schedule.id}" requiredTerms must be an array.`);
+      } else {
+        for (const [termIndex, term] of schedule.requiredTerms.entries()) {
+          if (typeof term !== 'string' || !term.trim()) {
+            report(
+              `${path}.requiredTerms.${termIndex}`,
+              `Schedule "${schedule.id}" requiredTerm ${termIndex} must be a non-empty string.`,
+              'Enter a term.'
+            );
+          }
+        }
       }
-      if (typeof keyword.weight !== 'number' || Number.isNaN(keyword.weight)) {
-        errors.push(`Schedule "${schedule.id}" smallTerm ${termIndex} weight must be a number.`);
+    }
+    if (schedule.proximityTerms !== undefined) {
+      if (!Array.isArray(schedule.proximityTerms)) {
+        report(`${path}.proximityTerms`, `Schedule "${schedule.id}" proximityTerms must be an array.`);
+      } else {
+        for (const [termIndex, term] of schedule.proximityTerms.entries()) {
+          const termPath = `${path}.proximityTerms.${termIndex}`;
+          const label = `Schedule "${schedule.id}" proximityTerm ${termIndex}`;
+          if (!term || typeof term !== 'object') {
+            report(termPath, `${label} must be an object.`);
+            continue;
+          }
+          if (
+            !Array.isArray(term.terms) ||
+            term.terms.length !== 2 ||
+            term.terms.some((item) => typeof item !== 'string' || !item.trim())
+          ) {
+            report(`${termPath}.terms`, `${label} terms must be two non-empty strings.`, 'Enter both terms.');
+          }
+          if (!Number.isInteger(term.within) || term.within < 0) {
+            report(
+              `${termPath}.within`,
+              `${label} within must be a whole number of words.`,
+              'Distance must be a whole number of words.'
+            );
+          }
+          if (typeof term.weight !== 'number' || Number.isNaN(term.weight)) {
+            report(`${termPath}.weight`, `${label} weight must be a number.`, 'Weight must be a number.');
+          }
+        }
+      }
+    }
+    if (schedule.regexTerms !== undefined) {
+      if (!Array.isArray(schedule.regexTerms)) {
+        report(`${path}.regexTerms`, `Schedule "${schedule.id}" regexTerms must be an array.`);
+      } else {
+        for (const [termIndex, term] of schedule.regexTerms.entries()) {
+          const termPath = `${path}.regexTerms.${termIndex}`;
+          const label = `Schedule "${schedule.id}" regexTerm ${termIndex}`;
+          if (!term || typeof term !== 'object') {
+            report(termPath, `${label} must be an object.`);
+            continue;
+          }
+          if (typeof term.pattern !== 'string' || !term.pattern) {
+            report(`${termPath}.pattern`, `${label} pattern must be a string.`, 'Enter a pattern.');
+          } else {
+            try {
+              // A pattern that matches nothing at all would match at every character of the text.
+              if (new RegExp(term.pattern, 'gi').test('')) {
+                report(
+                  `${termPath}.pattern`,
+                  `${label} "${term.pattern}" matches an empty string.`,
+                  'Pattern must not match an empty string.'
+                );
+              }
+            } catch (error) {
+              report(
+                `${termPath}.pattern`,
+                `${label} "${term.pattern}" is not a valid regex: ${String(error)}`,
+                `Not a valid regex: ${error instanceof Error ? error.message : String(error)}`
+              );
+            }
+          }
+          if (typeof term.weight !== 'number' || Number.isNaN(term.weight)) {
+            report(`${termPath}.weight`, `${label} weight must be a number.`, 'Weight must be a number.');
+          }
+        }
       }
     }
   }
 
-  for (const [index, rule] of filenameRules.entries()) {
-    if (!rule || typeof rule !== 'object') {
-      errors.push(`Filename rule at index ${index} must be an object.`);
-      continue;
-    }
-    if (typeof rule.pattern !== 'string' || !rule.pattern) {
-      errors.push(`Filename rule at index ${index} pattern must be a string.`);
-    } else {
-      try {
-        new RegExp(rule.pattern, 'i');
-      } catch (error) {
-        errors.push(`Filename rule "${rule.pattern}" is not a valid regex: ${String(error)}`);
+  if (candidate.pathRules !== undefined && !Array.isArray(candidate.pathRules)) {
+    report('pathRules', 'Config.pathRules must be an array.');
+  }
+  const pathRules = Array.isArray(candidate.pathRules) ? candidate.pathRules : [];
+  const ruleLists = [
+    ['filenameRules', 'Filename rule', filenameRules],
+    ['pathRules', 'Path rule', pathRules],
+  ] as const;
+
+  for (const [list, noun, rules] of ruleLists) {
+    for (const [index, rule] of rules.entries()) {
+      const path = `${list}.${index}`;
+      if (!rule || typeof rule !== 'object') {
+        report(path, `${noun} at index ${index} must be an object.`);
+        continue;
+      }
+      if (typeof rule.pattern !== 'string' || !rule.pattern) {
+        report(`${path}.pattern`, `${noun} at index ${index} pattern must be a string.`, 'Enter a pattern.');
+      } else {
+        try {
+          new RegExp(rule.pattern, 'i');
+        } catch (error) {
+          report(
+            `${path}.pattern`,
+            `${noun} "${rule.pattern}" is not a valid regex: ${String(error)}`,
+            `Not a valid regex: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+      if (typeof rule.schedule !== 'string' || !rule.schedule) {
+        report(`${path}.schedule`, `${noun} at index ${index} schedule must be a string.`, 'Pick a schedule.');
+      } else if (!seenIds.has(rule.schedule)) {
+        report(
+          `${path}.schedule`,
+          `${noun} at index ${index} targets unknown schedule "${rule.schedule}".`,
+          `No schedule has the id "${rule.schedule}".`
+        );
+      }
+      // Filename rules predate modes, so a missing mode means `assign`.
+      const mode = list === 'filenameRules' ? (rule.mode ?? 'assign') : rule.mode;
+      if (mode !== 'assign' && mode !== 'boost') {
+        report(`${path}.mode`, `${noun} at index ${index} mode must be "assign" or "boost".`, 'Pick a mode.');
+      } else if (mode === 'boost' && (typeof rule.weight !== 'number' || Number.isNaN(rule.weight))) {
+        report(
+          `${path}.weight`,
+          `${noun} at index ${index} needs a numeric weight to boost by.`,
+          'Weight must be a number.'
+        );
       }
     }
-    if (typeof rule.schedule !== 'string' || !rule.schedule) {
-      errors.push(`Filename rule at index ${index} schedule must be a string.`);
+  }
+
+  for (const [index, rule] of filenameRules.entries()) {
+    if (rule && typeof rule === 'object' && rule.priority !== undefined && !Number.isFinite(rule.priority)) {
+      report(
+        `filenameRules.${index}.priority`,
+        `Filename rule at index ${index} priority must be a number.`,
+        'Priority must be a number.'
+      );
     }
   }
 
-  return errors.length > 0 ? { errors } : { config: candidate, errors: [] };
+  return errors.length > 0 ? { errors, issues } : { config: candidate, errors, issues };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isTermArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isRecord);
+}
+
+/** Whether a parsed draft has the shape the Rules Editor form needs; anything else is edited as JSON. */
+export function isFormEditable(raw: unknown): raw is ScheduleConfig {
+  return (
+    isRecord(raw) &&
+    Array.isArray(raw.schedules) &&
+    raw.schedules.every(
+      (schedule) =>
+        isRecord(schedule) &&
+        isTermArray(schedule.keywords) &&
+        isTermArray(schedule.smallTerms) &&
+        ['negativeTerms', 'proximityTerms', 'regexTerms'].every(
+          (list) => schedule[list] === undefined || isTermArray(schedule[list])
+        ) &&
+        (schedule.requiredTerms === undefined || Array.isArray(schedule.requiredTerms))
+    ) &&
+    Array.isArray(raw.filenameRules) &&
+    raw.filenameRules.every(isRecord) &&
+    (raw.pathRules === undefined || isTermArray(raw.pathRules))
+  );
+}
+
+export function findSchedule(
+  scheduleId: ScheduleId | undefined,
+  schedules: ScheduleDefinition[]
+): ScheduleDefinition | undefined {
+  return scheduleId ? schedules.find((schedule) => schedule.id === scheduleId) : undefined;
+}
+
+export function getScheduleLabel(scheduleId: ScheduleId, schedules: ScheduleDefinition[]): string {
+  return findSchedule(scheduleId, schedules)?.label ?? scheduleId;
+}
+
+// Results from an earlier run can name a schedule the current config no longer has;
+// they keep writing to a folder named after the id until the sort is re-run.
+export function getScheduleFolder(scheduleId: ScheduleId, schedules: ScheduleDefinition[]): string {
+  const schedule = findSchedule(scheduleId, schedules);
+  return schedule?.folder ?? schedule?.id ?? scheduleId;
 }
 
 export function compileScheduleConfig(config: ScheduleConfig): CompiledScheduleConfig {
   return {
     schedules: config.schedules,
-    filenameRules: config.filenameRules.map((rule) => ({
+    // Array.prototype.sort is stable, so rules of equal priority keep their order.
+    filenameRules: [...config.filenameRules]
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+      .map((rule) => ({
+        pattern: new RegExp(rule.pattern, 'i'),
+        schedule: rule.schedule,
+        mode: rule.mode ?? 'assign',
+        weight: rule.weight ?? 0,
+      })),
+    pathRules: (config.pathRules ?? []).map((rule) => ({
       pattern: new RegExp(rule.pattern, 'i'),
       schedule: rule.schedule,
+      mode: rule.mode,
+      weight: rule.weight ?? 0,
     })),
   };
 }
 
-export function loadStoredScheduleConfig(): ScheduleConfig | null {
-  const raw = localStorage.getItem(STORAGE_KEY);
+// v1 configs were saved before Schedules G, H and J–U existed. Merge in the default
+// definitions (and their filename rules) for any schedule the stored config lacks,
+// keeping the stored versions of the schedules it already has.
+function mergeMissingDefaultSchedules(config: ScheduleConfig): ScheduleConfig {
+  const defaults = getDefaultConfig();
+  const storedById = new Map(config.schedules.map((schedule) => [schedule.id, schedule]));
+  const added = new Set<ScheduleId>();
+  const schedules = defaults.schedules.map((schedule) => {
+    const stored = storedById.get(schedule.id);
+    if (stored) return stored;
+    added.add(schedule.id);
+    return schedule;
+  });
+  const defaultIds = new Set(defaults.schedules.map((schedule) => schedule.id));
+  schedules.push(...config.schedules.filter((schedule) => !defaultIds.has(schedule.id)));
+  return {
+    schedules,
+    filenameRules: [
+      ...config.filenameRules,
+      ...defaults.filenameRules.filter((rule) => added.has(rule.schedule)),
+    ],
+  };
+}
+
+function migrateLegacyScheduleConfig(): ScheduleConfig | null {
+  // Configs from before v2 predate workspaces and belong to the default one.
+  if (getActiveWorkspaceId() !== DEFAULT_WORKSPACE_ID) return null;
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
   if (!raw) return null;
+  try {
+    const { config } = validateScheduleConfig(JSON.parse(raw));
+    if (!config) return null;
+    const migrated = mergeMissingDefaultSchedules(config);
+    saveScheduleConfig(migrated);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return migrated;
+  } catch {
+    return null;
+  }
+}
+
+export function loadStoredScheduleConfig(): ScheduleConfig | null {
+  const raw = localStorage.getItem(workspaceKey(STORAGE_KEY));
+  if (!raw) return migrateLegacyScheduleConfig();
   try {
     const parsed = JSON.parse(raw) as ScheduleConfig;
     const { config, errors } = validateScheduleConfig(parsed);
@@ -140,15 +463,19 @@ export function loadStoredScheduleConfig(): ScheduleConfig | null {
 }
 
 export function saveScheduleConfig(config: ScheduleConfig): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(config, null, 2));
+  localStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify(config, null, 2));
+}
+
+export async function getConfigHash(config: ScheduleConfig): Promise<string> {
+  return hashArrayBuffer(new TextEncoder().encode(JSON.stringify(config)).buffer as ArrayBuffer);
 }
 
 export function resetStoredScheduleConfig(): void {
-  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(workspaceKey(STORAGE_KEY));
 }
 
 export function loadRulesAuditLog(): RulesAuditEntry[] {
-  const raw = localStorage.getItem(AUDIT_KEY);
+  const raw = localStorage.getItem(workspaceKey(AUDIT_KEY));
   if (!raw) return [];
   try {
     const parsed = JSON.parse(raw) as RulesAuditEntry[];
@@ -158,14 +485,16 @@ export function loadRulesAuditLog(): RulesAuditEntry[] {
   }
 }
 
+export function saveRulesAuditLog(entries: RulesAuditEntry[]): void {
+  localStorage.setItem(workspaceKey(AUDIT_KEY), JSON.stringify(entries, null, 2));
+}
+
 export function appendRulesAuditEntry(entry: RulesAuditEntry): void {
-  const current = loadRulesAuditLog();
-  current.unshift(entry);
-  localStorage.setItem(AUDIT_KEY, JSON.stringify(current.slice(0, 50), null, 2));
+  saveRulesAuditLog([entry, ...loadRulesAuditLog()]);
 }
 
 export function loadReviewOverrides(): Record<string, ScheduleId> {
-  const raw = localStorage.getItem(OVERRIDES_KEY);
+  const raw = localStorage.getItem(workspaceKey(OVERRIDES_KEY));
   if (!raw) return {};
   try {
     const parsed = JSON.parse(raw) as Record<string, ScheduleId>;
@@ -176,5 +505,5 @@ export function loadReviewOverrides(): Record<string, ScheduleId> {
 }
 
 export function saveReviewOverrides(overrides: Record<string, ScheduleId>): void {
-  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides, null, 2));
+  localStorage.setItem(workspaceKey(OVERRIDES_KEY), JSON.stringify(overrides, null, 2));
 }
@@ -1,26 +1,52 @@
-export type ScheduleId =
-  | 'Admin_General'
-  | 'A_Real_Estate'
-  | 'B_Stocks_Bonds'
-  | 'C_Cash_Notes'
-  | 'D_Life_Insurance'
-  | 'E_Joint_Property'
-  | 'F_Other_Property'
-  | 'I_Annuities_Retirement';
+// Schedule IDs come from the rules config, so any set the Rules Editor saves is valid.
+export type ScheduleId = string;
 
 export interface WeightedTerm {
   term: string;
   weight: number;
 }
 
+/** Scores `weight` for each occurrence of `terms[0]` with `terms[1]` at most `within` words away. */
+export interface ProximityTerm {
+  terms: [string, string];
+  within: number;
+  weight: number;
+}
+
+/** Scores `weight` per match of `pattern` (case-insensitive) in the text as extracted. */
+export interface RegexTerm {
+  pattern: string;
+  weight: number;
+}
+
 export interface ScheduleDefinition {
   id: ScheduleId;
   label: string;
+  /** Output folder under `706/`. Defaults to the schedule id. */
+  folder?: string;
   keywords: WeightedTerm[];
   smallTerms: WeightedTerm[];
+  /** Terms that count against the schedule; their weights are negative. */
+  negativeTerms?: WeightedTerm[];
+  /** The schedule scores 0 unless the text contains every one of these. */
+  requiredTerms?: string[];
+  proximityTerms?: ProximityTerm[];
+  regexTerms?: RegexTerm[];
 }
 
+/** `assign` files a match without scoring its text; `boost` adds to the keyword score. */
+export type RuleMode = 'assign' | 'boost';
+
 export interface FilenameRule {
   pattern: RegExp;
   schedule: ScheduleId;
+  mode: RuleMode;
+  weight: number;
+}
+
+export interface PathRule {
+  pattern: RegExp;
+  schedule: ScheduleId;
+  mode: RuleMode;
+  weight: number;
 }
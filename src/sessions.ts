@@ -0,0 +1,156 @@
+// src/sessions.ts
+// Sort sessions kept in IndexedDB so a reload or crash does not lose a review. A session
+// holds the results (as manifest entries, without file contents), the debug log, the
+// settings that produced them and, where the File System Access API exists, a handle to
+// the source folder so it can be re-read without picking it again.
+
+import type { ScannedDetectionThresholds } from './classify';
+import type { SelectedFile } from './engine';
+import type { ManifestFile } from './priorRun';
+import type { SortSummary } from './reports';
+import { DEFAULT_WORKSPACE_ID } from './storage';
+
+export interface SortSessionSummary {
+  id: string;
+  /** Estate workspace the session belongs to; sessions saved before workspaces have none. */
+  workspaceId?: string;
+  /** Name of the source folder. */
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  /** SHA-256 of the rules config JSON the session was sorted with. */
+  configHash: string;
+  scanThresholds: ScannedDetectionThresholds;
+  maxPdfParseBytes: number;
+  ocrEnabled: boolean;
+  nearDuplicateThreshold: number;
+  totals: SortSummary;
+  hasDirectoryHandle: boolean;
+}
+
+export interface SortSession extends SortSessionSummary {
+  files: ManifestFile[];
+  sourcePaths: Record<string, string[]>;
+  debugLog: string[];
+  directoryHandle?: FileSystemDirectoryHandle;
+}
+
+// The permission and iteration parts of the File System Access API that lib.dom lacks.
+interface ReadableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>;
+  queryPermission(options: { mode: 'read' }): Promise<PermissionState>;
+  requestPermission(options: { mode: 'read' }): Promise<PermissionState>;
+}
+
+const DB_NAME = 'estate706.sessions';
+const DB_VERSION = 1;
+// Summaries are stored apart from the full sessions so listing them stays cheap.
+const SUMMARY_STORE = 'summaries';
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openSessionDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    };
+    dbPromise = requestToPromise(request).catch((error: unknown) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function toSessionSummary(session: SortSession): SortSessionSummary {
+  const { files, sourcePaths, debugLog, directoryHandle, ...summary } = session;
+  return summary;
+}
+
+/** Sessions of one workspace, most recently updated first. */
+export async function listSessions(workspaceId: string): Promise<SortSessionSummary[]> {
+  const db = await openSessionDb();
+  const summaries = await requestToPromise(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<SortSessionSummary[]>
+  );
+  return summaries
+    .filter((summary) => (summary.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadSession(id: string): Promise<SortSession | undefined> {
+  const db = await openSessionDb();
+  return requestToPromise(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id) as IDBRequest<SortSession | undefined>
+  );
+}
+
+export async function saveSession(session: SortSession): Promise<void> {
+  const db = await openSessionDb();
+  const transaction = db.transaction([SUMMARY_STORE, SESSION_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put(toSessionSummary(session));
+  transaction.objectStore(SESSION_STORE).put(session);
+  await transactionDone(transaction);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openSessionDb();
+  const transaction = db.transaction([SUMMARY_STORE, SESSION_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(SESSION_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export function supportsDirectoryHandles(): boolean {
+  return 'showDirectoryPicker' in window;
+}
+
+export async function pickSourceDirectory(): Promise<FileSystemDirectoryHandle> {
+  if (!('showDirectoryPicker' in window)) {
+    throw new Error('File System Access API not available in this browser.');
+  }
+  return (window as Window & { showDirectoryPicker: () => Promise<FileSystemDirectoryHandle> }).showDirectoryPicker();
+}
+
+/** Asks for read access again; browsers only grant it in response to a click. */
+export async function ensureReadPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+  const readable = handle as ReadableDirectoryHandle;
+  if ((await readable.queryPermission({ mode: 'read' })) === 'granted') return true;
+  return (await readable.requestPermission({ mode: 'read' })) === 'granted';
+}
+
+/** Every file under `handle`, with paths that start at the folder's name like webkitRelativePath. */
+export async function readDirectoryFiles(
+  handle: FileSystemDirectoryHandle,
+  include: (filename: string) => boolean,
+  prefix = handle.name
+): Promise<SelectedFile[]> {
+  const files: SelectedFile[] = [];
+  for await (const entry of (handle as ReadableDirectoryHandle).values()) {
+    const relativePath = `${prefix}/${entry.name}`;
+    if (entry.kind === 'directory') {
+      files.push(...(await readDirectoryFiles(entry as FileSystemDirectoryHandle, include, relativePath)));
+    } else if (include(entry.name)) {
+      files.push({ file: await (entry as FileSystemFileHandle).getFile(), relativePath });
+    }
+  }
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
@@ -0,0 +1,28 @@
+// src/storage.ts
+// Workspace-scoped localStorage keys. Rules, overrides, audit history, the estate profile,
+// probable-duplicate decisions and the local model are stored per estate workspace (see
+// workspaces.ts).
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const ACTIVE_WORKSPACE_KEY = 'estate706.activeWorkspace.v1';
+
+let activeWorkspaceId: string | null = null;
+
+export function getActiveWorkspaceId(): string {
+  activeWorkspaceId ??= localStorage.getItem(ACTIVE_WORKSPACE_KEY) ?? DEFAULT_WORKSPACE_ID;
+  return activeWorkspaceId;
+}
+
+export function setActiveWorkspaceId(id: string): void {
+  activeWorkspaceId = id;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+}
+
+/**
+ * The storage key for `key` in a workspace. The default workspace keeps the original
+ * unscoped keys, so data saved before workspaces existed stays where it was.
+ */
+export function workspaceKey(key: string, workspaceId = getActiveWorkspaceId()): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${key}@${workspaceId}`;
+}
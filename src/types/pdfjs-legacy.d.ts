@@ -10,3 +10,7 @@ declare module "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url" {
   const src: string;
   export default src;
 }
+
+declare module "pdfjs-dist/legacy/build/pdf.worker.mjs" {
+  export const WorkerMessageHandler: unknown;
+}
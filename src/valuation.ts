@@ -0,0 +1,118 @@
+// src/valuation.ts
+// Estate profile (date of death and the optional alternate valuation election) and the
+// checks that compare statement periods extracted from documents with the valuation date.
+
+import type { ProcessedFile } from './reports';
+import { workspaceKey } from './storage';
+
+export interface EstateProfile {
+  decedentName: string;
+  /** ISO date (YYYY-MM-DD); empty until entered. */
+  dateOfDeath: string;
+  /** IRC §2032 election: value the estate six months after the date of death. */
+  alternateValuation: boolean;
+}
+
+/** covered: a statement period includes the valuation date; outside: periods found, none do. */
+export type ValuationCoverage = 'covered' | 'outside' | 'no_period';
+
+export interface AccountValuationGap {
+  account: string;
+  schedule: string;
+  /** Output paths of the documents that mention the account. */
+  documents: string[];
+  /** Statement periods found for the account, none of which include the valuation date. */
+  periods: string[];
+}
+
+const PROFILE_KEY = 'estate706.estateProfile.v1';
+
+export const EMPTY_ESTATE_PROFILE: EstateProfile = {
+  decedentName: '',
+  dateOfDeath: '',
+  alternateValuation: false,
+};
+
+export function loadEstateProfile(): EstateProfile {
+  const raw = localStorage.getItem(workspaceKey(PROFILE_KEY));
+  if (!raw) return { ...EMPTY_ESTATE_PROFILE };
+  try {
+    const parsed = JSON.parse(raw) as Partial<EstateProfile>;
+    return { ...EMPTY_ESTATE_PROFILE, ...parsed };
+  } catch {
+    return { ...EMPTY_ESTATE_PROFILE };
+  }
+}
+
+export function saveEstateProfile(profile: EstateProfile): void {
+  localStorage.setItem(workspaceKey(PROFILE_KEY), JSON.stringify(profile, null, 2));
+}
+
+function parseIsoDate(value: string): { year: number; month: number; day: number } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+// Six months after January 31 is July 31; after August 31 it is the last day of February.
+function addMonths(value: string, months: number): string | null {
+  const parsed = parseIsoDate(value);
+  if (!parsed) return null;
+  const monthIndex = parsed.month - 1 + months;
+  const year = parsed.year + Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Math.min(parsed.day, lastDay);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** The date of death, or six months later under the alternate valuation election. */
+export function getValuationDate(profile: EstateProfile): string | null {
+  if (!parseIsoDate(profile.dateOfDeath)) return null;
+  return profile.alternateValuation ? addMonths(profile.dateOfDeath, 6) : profile.dateOfDeath;
+}
+
+export function getValuationCoverage(file: ProcessedFile, valuationDate: string): ValuationCoverage {
+  const periods = file.fields?.statementPeriods ?? [];
+  if (periods.length === 0) return 'no_period';
+  return periods.some(({ value }) => value.start <= valuationDate && valuationDate <= value.end)
+    ? 'covered'
+    : 'outside';
+}
+
+/**
+ * Accounts (by extracted account number) with no document whose statement period includes
+ * the valuation date. Duplicates are skipped; their kept copy carries the same fields.
+ */
+export function findAccountsLackingValuationStatement(
+  files: ProcessedFile[],
+  valuationDate: string
+): AccountValuationGap[] {
+  const byAccount = new Map<string, ProcessedFile[]>();
+  for (const file of files) {
+    if (file.decision === 'duplicate' || !file.fields) continue;
+    for (const { value } of file.fields.accountNumbers) {
+      const group = byAccount.get(value) ?? [];
+      if (!group.includes(file)) group.push(file);
+      byAccount.set(value, group);
+    }
+  }
+
+  const gaps: AccountValuationGap[] = [];
+  for (const [account, accountFiles] of byAccount) {
+    if (accountFiles.some((file) => getValuationCoverage(file, valuationDate) === 'covered')) continue;
+    const scheduled = accountFiles.find((file) => file.schedule) ?? accountFiles[0];
+    gaps.push({
+      account,
+      schedule: scheduled.schedule ?? scheduled.candidate ?? 'Unknown',
+      documents: accountFiles.map((file) => file.outputPath),
+      periods: accountFiles.flatMap((file) =>
+        (file.fields?.statementPeriods ?? []).map(({ value }) => `${value.start} to ${value.end}`)
+      ),
+    });
+  }
+  return gaps.sort((a, b) => a.schedule.localeCompare(b.schedule) || a.account.localeCompare(b.account));
+}
@@ -0,0 +1,176 @@
+// src/workerPool.ts
+// Fixed-size pool of Web Workers (see fileWorker.ts) that hash files and extract PDF text
+// off the main thread. Hash jobs hand the worker the File itself, which it streams in
+// chunks; PDF bytes are read here and transferred, not copied, to the worker.
+// Aborting a job's signal terminates the worker running it; a fresh one is started on demand.
+
+import type { FileProcessor } from './engine';
+import type { PdfTextResult } from './pdfText';
+
+interface FileJobResults {
+  hash: string;
+  pdfText: PdfTextResult;
+}
+
+export type FileJobKind = keyof FileJobResults;
+
+export type FileJobRequest =
+  | { id: number; kind: 'hash'; file: Blob }
+  | { id: number; kind: 'pdfText'; buffer: ArrayBuffer };
+
+export type FileJobResponse =
+  | { id: number; ok: true; result: FileJobResults[FileJobKind] }
+  | { id: number; ok: false; error: string };
+
+export interface WorkerPool extends FileProcessor {
+  /** Stops every worker and rejects queued and running jobs. */
+  terminate(): void;
+}
+
+interface PoolJob {
+  id: number;
+  kind: FileJobKind;
+  file: File;
+  signal?: AbortSignal;
+  resolve: (result: FileJobResults[FileJobKind]) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+interface PoolSlot {
+  worker: Worker | null;
+  job: PoolJob | null;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Job cancelled', 'AbortError');
+}
+
+export function createWorkerPool(size: number, createWorker: () => Worker): WorkerPool {
+  const slots: PoolSlot[] = Array.from({ length: Math.max(1, size) }, () => ({ worker: null, job: null }));
+  const queue: PoolJob[] = [];
+  let nextId = 1;
+  let terminated = false;
+
+  const settle = (slot: PoolSlot) => {
+    const job = slot.job;
+    slot.job = null;
+    job?.signal?.removeEventListener('abort', job.onAbort);
+    return job;
+  };
+
+  const stopWorker = (slot: PoolSlot) => {
+    slot.worker?.terminate();
+    slot.worker = null;
+  };
+
+  const spawn = (slot: PoolSlot): Worker => {
+    const worker = createWorker();
+    worker.addEventListener('message', (event: MessageEvent<FileJobResponse>) => {
+      // pdf.js also announces itself on the worker port; only our own replies carry the job id.
+      if (!slot.job || event.data?.id !== slot.job.id) return;
+      const job = settle(slot);
+      if (event.data.ok) {
+        job?.resolve(event.data.result);
+      } else {
+        job?.reject(new Error(event.data.error));
+      }
+      dispatch();
+    });
+    worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      stopWorker(slot);
+      settle(slot)?.reject(new Error(event.message || 'Worker crashed'));
+      dispatch();
+    });
+    return worker;
+  };
+
+  const start = async (slot: PoolSlot, job: PoolJob) => {
+    slot.job = job;
+    if (job.kind === 'hash') {
+      slot.worker ??= spawn(slot);
+      const request: FileJobRequest = { id: job.id, kind: 'hash', file: job.file };
+      slot.worker.postMessage(request);
+      return;
+    }
+    let buffer: ArrayBuffer;
+    try {
+      buffer = await job.file.arrayBuffer();
+    } catch (error) {
+      if (slot.job === job) {
+        settle(slot);
+        job.reject(error);
+        dispatch();
+      }
+      return;
+    }
+    // Cancelled or terminated while the file was being read.
+    if (slot.job !== job) return;
+    slot.worker ??= spawn(slot);
+    const request: FileJobRequest = { id: job.id, kind: 'pdfText', buffer };
+    slot.worker.postMessage(request, [buffer]);
+  };
+
+  const dispatch = () => {
+    for (const slot of slots) {
+      if (slot.job) continue;
+      const job = queue.shift();
+      if (!job) return;
+      void start(slot, job);
+    }
+  };
+
+  const run = <K extends FileJobKind>(kind: K, file: File, signal?: AbortSignal): Promise<FileJobResults[K]> =>
+    new Promise((resolve, reject) => {
+      if (terminated) {
+        reject(new Error('Worker pool terminated'));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const job: PoolJob = {
+        id: nextId++,
+        kind,
+        file,
+        signal,
+        resolve: resolve as PoolJob['resolve'],
+        reject,
+        onAbort: () => {
+          const queued = queue.indexOf(job);
+          if (queued !== -1) {
+            queue.splice(queued, 1);
+          } else {
+            const slot = slots.find((item) => item.job === job);
+            if (!slot) return;
+            stopWorker(slot);
+            settle(slot);
+          }
+          reject(abortError());
+          dispatch();
+        },
+      };
+      signal?.addEventListener('abort', job.onAbort, { once: true });
+      queue.push(job);
+      dispatch();
+    });
+
+  return {
+    hash: (file, signal) => run('hash', file, signal),
+    extractPdfText: (file, signal) => run('pdfText', file, signal),
+    terminate: () => {
+      terminated = true;
+      const error = new Error('Worker pool terminated');
+      for (const job of queue.splice(0)) {
+        job.signal?.removeEventListener('abort', job.onAbort);
+        job.reject(error);
+      }
+      for (const slot of slots) {
+        stopWorker(slot);
+        settle(slot)?.reject(error);
+      }
+    },
+  };
+}
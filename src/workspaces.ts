@@ -0,0 +1,220 @@
+// src/workspaces.ts
+// Named estate workspaces. Each has its own rules config, review overrides and review actions
+// log, rules audit trail and history, estate profile, probable-duplicate decisions, local model
+// and saved sessions, and can be exported to (or imported from) a single JSON file.
+
+import { loadLocalModelSettings, saveLocalModelSettings, type LocalModelSettings } from './localModel';
+import { loadNearDuplicateDecisions, saveNearDuplicateDecisions, type NearDuplicateDecision } from './nearDuplicates';
+import { loadReviewActions, saveReviewActions, type ReviewActions } from './reviewActions';
+import { loadRulesHistory, saveRulesHistory, type RulesHistory } from './rulesHistory';
+import {
+  loadReviewOverrides,
+  loadRulesAuditLog,
+  loadStoredScheduleConfig,
+  saveReviewOverrides,
+  saveRulesAuditLog,
+  saveScheduleConfig,
+  validateScheduleConfig,
+  type RulesAuditEntry,
+  type ScheduleConfig,
+} from './scheduleConfig';
+import type { ScheduleId } from './schedules';
+import { listSessions, loadSession, saveSession, type SortSession } from './sessions';
+import { DEFAULT_WORKSPACE_ID, getActiveWorkspaceId, setActiveWorkspaceId } from './storage';
+import { EMPTY_ESTATE_PROFILE, loadEstateProfile, saveEstateProfile, type EstateProfile } from './valuation';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** The single-file form of a workspace. Folder handles are not portable and are dropped. */
+export interface WorkspaceExport {
+  format: typeof WORKSPACE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  name: string;
+  /** null while the workspace still uses the built-in rules. */
+  config: ScheduleConfig | null;
+  rulesAudit: RulesAuditEntry[];
+  /** Absent from files exported before rules history existed. */
+  rulesHistory?: RulesHistory;
+  reviewOverrides: Record<string, ScheduleId>;
+  /** Absent from files exported before review actions were logged. */
+  reviewActions?: ReviewActions;
+  nearDuplicateDecisions: Record<string, NearDuplicateDecision>;
+  estateProfile: EstateProfile;
+  /** Absent from files exported before the local model existed. */
+  localModel?: LocalModelSettings;
+  sessions: SortSession[];
+}
+
+const WORKSPACE_FORMAT = 'estate706-workspace';
+const WORKSPACES_KEY = 'estate706.workspaces.v1';
+
+const DEFAULT_WORKSPACE: Workspace = { id: DEFAULT_WORKSPACE_ID, name: 'Default estate', createdAt: '' };
+
+/** All workspaces, the default one first; it always exists. */
+export function loadWorkspaces(): Workspace[] {
+  const raw = localStorage.getItem(WORKSPACES_KEY);
+  let stored: Workspace[] = [];
+  try {
+    const parsed = raw ? (JSON.parse(raw) as Workspace[]) : [];
+    stored = Array.isArray(parsed) ? parsed.filter((workspace) => workspace.id !== DEFAULT_WORKSPACE_ID) : [];
+  } catch {
+    stored = [];
+  }
+  return [DEFAULT_WORKSPACE, ...stored];
+}
+
+function saveWorkspaces(workspaces: Workspace[]): void {
+  const stored = workspaces.filter((workspace) => workspace.id !== DEFAULT_WORKSPACE_ID);
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(stored, null, 2));
+}
+
+export function getActiveWorkspace(): Workspace {
+  const workspaces = loadWorkspaces();
+  return workspaces.find((workspace) => workspace.id === getActiveWorkspaceId()) ?? workspaces[0];
+}
+
+export function switchWorkspace(id: string): Workspace {
+  const workspace = loadWorkspaces().find((item) => item.id === id);
+  if (!workspace) {
+    throw new Error(`Unknown workspace "${id}".`);
+  }
+  setActiveWorkspaceId(workspace.id);
+  return workspace;
+}
+
+function uniqueWorkspaceName(name: string, workspaces: Workspace[]): string {
+  const taken = new Set(workspaces.map((workspace) => workspace.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let counter = 2;
+  while (taken.has(`${name} (${counter})`.toLowerCase())) counter += 1;
+  return `${name} (${counter})`;
+}
+
+/** Creates an empty workspace (built-in rules, no overrides) and makes it active. */
+export function createWorkspace(name: string): Workspace {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Workspace name must not be empty.');
+  }
+  const workspaces = loadWorkspaces();
+  const workspace: Workspace = {
+    id: crypto.randomUUID(),
+    name: uniqueWorkspaceName(trimmed, workspaces),
+    createdAt: new Date().toISOString(),
+  };
+  saveWorkspaces([...workspaces, workspace]);
+  setActiveWorkspaceId(workspace.id);
+  return workspace;
+}
+
+/** Serializes the active workspace, including its saved sessions. */
+export async function exportActiveWorkspace(): Promise<WorkspaceExport> {
+  const workspace = getActiveWorkspace();
+  const sessions: SortSession[] = [];
+  for (const summary of await listSessions(workspace.id)) {
+    const session = await loadSession(summary.id);
+    if (!session) continue;
+    const { directoryHandle, ...portable } = session;
+    sessions.push({ ...portable, hasDirectoryHandle: false });
+  }
+  return {
+    format: WORKSPACE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    name: workspace.name,
+    config: loadStoredScheduleConfig(),
+    rulesAudit: loadRulesAuditLog(),
+    rulesHistory: loadRulesHistory(),
+    reviewOverrides: loadReviewOverrides(),
+    reviewActions: loadReviewActions(),
+    nearDuplicateDecisions: loadNearDuplicateDecisions(),
+    estateProfile: loadEstateProfile(),
+    localModel: loadLocalModelSettings(),
+    sessions,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Checks a parsed workspace file; throws with every problem found. */
+export function parseWorkspaceExport(raw: unknown): WorkspaceExport {
+  if (!isRecord(raw) || raw.format !== WORKSPACE_FORMAT) {
+    throw new Error('Not a workspace export file.');
+  }
+  if (raw.version !== 1) {
+    throw new Error(`Unsupported workspace export version ${String(raw.version)}.`);
+  }
+  const errors: string[] = [];
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('name must be a non-empty string.');
+  if (raw.config !== null) {
+    const { errors: configErrors } = validateScheduleConfig(raw.config);
+    errors.push(...configErrors.map((error) => `config: ${error}`));
+  }
+  if (!Array.isArray(raw.rulesAudit)) errors.push('rulesAudit must be an array.');
+  if (
+    raw.rulesHistory !== undefined &&
+    !(isRecord(raw.rulesHistory) && Array.isArray(raw.rulesHistory.versions) && isRecord(raw.rulesHistory.snapshots))
+  ) {
+    errors.push('rulesHistory must have a versions array and a snapshots object.');
+  }
+  if (!isRecord(raw.reviewOverrides)) errors.push('reviewOverrides must be an object.');
+  if (
+    raw.reviewActions !== undefined &&
+    !(isRecord(raw.reviewActions) && Array.isArray(raw.reviewActions.log) && Array.isArray(raw.reviewActions.excluded))
+  ) {
+    errors.push('reviewActions must have log and excluded arrays.');
+  }
+  if (!isRecord(raw.nearDuplicateDecisions)) errors.push('nearDuplicateDecisions must be an object.');
+  if (!isRecord(raw.estateProfile)) errors.push('estateProfile must be an object.');
+  if (
+    raw.localModel !== undefined &&
+    !(
+      isRecord(raw.localModel) &&
+      (raw.localModel.model === null ||
+        (isRecord(raw.localModel.model) &&
+          raw.localModel.model.version === 2 &&
+          Array.isArray(raw.localModel.model.golden) &&
+          isRecord(raw.localModel.model.overrides)))
+    )
+  ) {
+    errors.push('localModel must have a version 2 model with golden and overrides examples, or null.');
+  }
+  if (
+    !Array.isArray(raw.sessions) ||
+    !raw.sessions.every((session) => isRecord(session) && Array.isArray(session.files))
+  ) {
+    errors.push('sessions must be an array of sessions with files.');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid workspace file:\n${errors.join('\n')}`);
+  }
+  const parsed = raw as unknown as WorkspaceExport;
+  return { ...parsed, estateProfile: { ...EMPTY_ESTATE_PROFILE, ...parsed.estateProfile } };
+}
+
+/**
+ * Adds an exported workspace as a new workspace (renamed if the name is taken) and makes it
+ * active. Sessions get new ids so importing into the browser that exported them is safe.
+ */
+export async function importWorkspace(data: WorkspaceExport): Promise<Workspace> {
+  const workspace = createWorkspace(data.name);
+  if (data.config) saveScheduleConfig(data.config);
+  saveRulesAuditLog(data.rulesAudit);
+  if (data.rulesHistory) saveRulesHistory(data.rulesHistory);
+  saveReviewOverrides(data.reviewOverrides);
+  if (data.reviewActions) saveReviewActions(data.reviewActions);
+  saveNearDuplicateDecisions(data.nearDuplicateDecisions);
+  saveEstateProfile(data.estateProfile);
+  if (data.localModel) saveLocalModelSettings(data.localModel);
+  for (const session of data.sessions) {
+    await saveSession({ ...session, id: crypto.randomUUID(), workspaceId: workspace.id, hasDirectoryHandle: false });
+  }
+  return workspace;
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { PDFDict, PDFDocument, PDFName, PDFNumber } from 'pdf-lib';
+import UTIF from 'utif';
+import { buildBinderEntries, DEFAULT_BINDER_OPTIONS } from '../src/binder.ts';
+import { extractPdfText } from '../src/pdfText.ts';
+import type { ProcessedFile } from '../src/reports.ts';
+import { getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+const ONE_PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+async function pdfWithPages(count: number): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < count; i += 1) pdf.addPage([300, 400]);
+  return pdf.save();
+}
+
+function assigned(name: string, schedule: string, bytes: Uint8Array | ArrayBuffer): ProcessedFile {
+  return processedFile(name, {
+    file: new File([bytes], name),
+    size: bytes.byteLength,
+    decision: 'assigned',
+    schedule,
+    outputPath: `706/${schedule}/${name}`,
+  });
+}
+
+async function binderFiles(): Promise<ProcessedFile[]> {
+  const tiff = UTIF.encodeImage(new Uint8Array(2 * 2 * 4).fill(255), 2, 2);
+  return [
+    assigned('deed.pdf', 'A_Real_Estate', await pdfWithPages(2)),
+    assigned('photo.png', 'A_Real_Estate', ONE_PIXEL_PNG),
+    assigned('scan.tif', 'C_Cash_Notes', tiff),
+    assigned('broken.pdf', 'C_Cash_Notes', new TextEncoder().encode('not a pdf')),
+    { ...assigned('review.pdf', 'C_Cash_Notes', await pdfWithPages(1)), decision: 'review' },
+  ];
+}
+
+test('builds one bookmarked binder per schedule with a contents page', async () => {
+  const entries = await buildBinderEntries(await binderFiles(), getDefaultConfig().schedules, DEFAULT_BINDER_OPTIONS);
+
+  assert.deepEqual(
+    entries.map((entry) => entry.path),
+    ['BINDERS/A_Real_Estate.pdf', 'BINDERS/C_Cash_Notes.pdf']
+  );
+  const realEstate = await PDFDocument.load(await (entries[0].file as Blob).arrayBuffer());
+  assert.equal(realEstate.getPageCount(), 4);
+  const outlines = realEstate.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+  assert.equal(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber(), 3);
+
+  const cash = await extractPdfText(await (entries[1].file as Blob).arrayBuffer());
+  assert.equal(cash.numPages, 3);
+  assert.match(cash.text, /Exhibit 1\s+broken\.pdf \(not included\)\s+2/);
+  assert.match(cash.text, /Exhibit 2\s+scan\.tif\s+3/);
+  assert.match(cash.text, /Could not include broken\.pdf/);
+});
+
+test('master binder nests documents under schedules and stamps Bates numbers', async () => {
+  const entries = await buildBinderEntries(await binderFiles(), getDefaultConfig().schedules, {
+    scope: 'master',
+    stamp: 'bates',
+    batesPrefix: 'EST',
+    batesStart: 100,
+  });
+
+  assert.deepEqual(
+    entries.map((entry) => entry.path),
+    ['BINDERS/706_Master_Binder.pdf']
+  );
+  const master = await extractPdfText(await (entries[0].file as Blob).arrayBuffer());
+  assert.equal(master.numPages, 6);
+  assert.match(master.text, /EST000100-EST000101\s+deed\.pdf\s+2/);
+  assert.match(master.text, /EST000103\s+broken\.pdf \(not included\)\s+5/);
+  assert.match(master.text, /EST000104\s+scan\.tif\s+6/);
+  assert.match(master.text, /\nEST000104\n/);
+
+  const pdf = await PDFDocument.load(await (entries[0].file as Blob).arrayBuffer());
+  const outlines = pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+  // Contents + 2 schedules + 4 documents.
+  assert.equal(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber(), 7);
+});
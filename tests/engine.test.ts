@@ -0,0 +1,206 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { applyReviewOverride, runSortEngine, type SelectedFile } from '../src/engine.ts';
+import { hashArrayBuffer } from '../src/hash.ts';
+import type { OcrResult } from '../src/ocr.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+
+const thresholds = {
+  minChars: 250,
+  minTextItems: 30,
+};
+
+const config = compileScheduleConfig(getDefaultConfig());
+
+function selected(relativePath: string, content: string): SelectedFile {
+  const name = relativePath.split('/').pop() ?? relativePath;
+  return { file: new File([content], name, { type: 'image/png' }), relativePath };
+}
+
+async function hashOf(content: string): Promise<string> {
+  return hashArrayBuffer(await new Blob([content]).arrayBuffer());
+}
+
+function sort(files: SelectedFile[], reviewOverrides: Record<string, string> = {}) {
+  return runSortEngine({ files, config, reviewOverrides, scanThresholds: thresholds, concurrency: 3 });
+}
+
+test('keeps the first relative path of identical files regardless of input order', async () => {
+  const files = [
+    selected('Estate/z/funeral_invoice.png', 'same bytes'),
+    selected('Estate/m/funeral_invoice.png', 'same bytes'),
+    selected('Estate/a/funeral_invoice.png', 'same bytes'),
+  ];
+  const result = await sort(files);
+
+  assert.deepEqual(
+    result.files.map((file) => [file.relativePath, file.decision, file.outputPath]),
+    [
+      ['Estate/z/funeral_invoice.png', 'duplicate', `DUPLICATES/${result.files[0].hashPrefix}/funeral_invoice.png`],
+      [
+        'Estate/m/funeral_invoice.png',
+        'duplicate',
+        `DUPLICATES/${result.files[0].hashPrefix}/funeral_invoice__dup1.png`,
+      ],
+      ['Estate/a/funeral_invoice.png', 'assigned', '706/J_Funeral_Admin_Expenses/funeral_invoice.png'],
+    ]
+  );
+  assert.ok(result.files.every((file) => file.schedule === 'J_Funeral_Admin_Expenses'));
+  assert.equal(result.sourcePaths[result.files[0].hashPrefix].length, 3);
+  assert.equal(result.aborted, false);
+});
+
+test('gives distinct files with the same name unique output paths', async () => {
+  const result = await sort([
+    selected('Estate/2023/funeral_invoice.png', 'first'),
+    selected('Estate/2024/funeral_invoice.png', 'second'),
+  ]);
+
+  assert.deepEqual(
+    result.files.map((file) => file.outputPath),
+    ['706/J_Funeral_Admin_Expenses/funeral_invoice.png', '706/J_Funeral_Admin_Expenses/funeral_invoice__dup1.png']
+  );
+});
+
+test('applies saved overrides and ignores overrides for unknown schedules', async () => {
+  const result = await sort([selected('Estate/scan1.png', 'scan one'), selected('Estate/scan2.png', 'scan two')], {
+    [await hashOf('scan one')]: 'A_Real_Estate',
+    [await hashOf('scan two')]: 'Z_Removed_Schedule',
+  });
+
+  assert.equal(result.files[0].decision, 'assigned');
+  assert.equal(result.files[0].schedule, 'A_Real_Estate');
+  assert.equal(result.files[0].reason, 'review_override');
+  assert.equal(result.files[1].decision, 'review');
+  assert.equal(result.files[1].reason, 'no_text_or_filename_rule');
+});
+
+test('applyReviewOverride updates duplicates and restores the prior decision when cleared', async () => {
+  const { files } = await sort([selected('Estate/a/scan.png', 'scan'), selected('Estate/b/scan.png', 'scan')]);
+  const hash = files[0].hash;
+
+  const overridden = applyReviewOverride(files, hash, 'C_Cash_Notes', config);
+  assert.equal(overridden[0].decision, 'assigned');
+  assert.equal(overridden[0].outputPath, '706/C_Cash_Notes/scan.png');
+  assert.equal(overridden[1].decision, 'duplicate');
+  assert.equal(overridden[1].schedule, 'C_Cash_Notes');
+
+  const cleared = applyReviewOverride(overridden, hash, 'clear', config);
+  assert.equal(cleared[0].decision, 'review');
+  assert.equal(cleared[0].reason, 'no_text_or_filename_rule');
+  assert.equal(cleared[0].outputPath, '706/ReviewNeeded/Unknown/scan.png');
+  assert.equal(cleared[1].decision, 'duplicate');
+});
+
+test('stops starting new files once aborted and reports progress by phase', async () => {
+  const controller = new AbortController();
+  const phases = new Set<string>();
+  const result = await runSortEngine(
+    {
+      files: [selected('Estate/1.png', '1'), selected('Estate/2.png', '2'), selected('Estate/3.png', '3')],
+      config,
+      reviewOverrides: {},
+      scanThresholds: thresholds,
+      concurrency: 1,
+    },
+    {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        phases.add(progress.phase);
+        if (progress.phase === 'hashing' && progress.done === 1) {
+          controller.abort();
+        }
+      },
+    }
+  );
+
+  assert.equal(result.aborted, true);
+  assert.ok(result.files.length < 3);
+  assert.ok(phases.has('hashing'));
+});
+
+test('hashes PDFs over the parse limit but sends them to review as file_too_large', async () => {
+  const big: SelectedFile = {
+    file: new File(['%PDF-1.4 not parsed'], 'big.pdf', { type: 'application/pdf' }),
+    relativePath: 'Estate/big.pdf',
+  };
+  const result = await runSortEngine({
+    files: [big],
+    config,
+    reviewOverrides: {},
+    scanThresholds: thresholds,
+    concurrency: 1,
+    maxPdfParseBytes: 10,
+  });
+
+  assert.equal(result.files[0].hash, await hashOf('%PDF-1.4 not parsed'));
+  assert.equal(result.files[0].decision, 'review');
+  assert.equal(result.files[0].reason, 'file_too_large');
+  assert.equal(result.files[0].pdfMetrics, undefined);
+  assert.equal(result.files[0].outputPath, '706/ReviewNeeded/Unknown/big.pdf');
+});
+
+test('reads images a filename rule placed and keeps the placement when OCR fails', async () => {
+  const text =
+    'Invoice from the funeral home for the services held on the ninth of March, with the casket, the flowers ' +
+    'and the hearse. Amount due $1,250.00.';
+  const run = (runOcr: () => Promise<OcrResult>) =>
+    runSortEngine({
+      files: [selected('Estate/funeral_invoice.png', 'invoice')],
+      config,
+      reviewOverrides: {},
+      scanThresholds: thresholds,
+      concurrency: 1,
+      runOcr,
+    });
+
+  const [read] = (
+    await run(async () => ({
+      text,
+      pages: [{ page: 1, confidence: 90, chars: text.length }],
+      pageOffsets: [0],
+      totalPages: 1,
+    }))
+  ).files;
+  assert.deepEqual(
+    [read.decision, read.schedule, read.reason],
+    ['assigned', 'J_Funeral_Admin_Expenses', 'filename_rule']
+  );
+  assert.equal(read.textSource, 'ocr');
+  assert.equal(read.text, text);
+  assert.deepEqual(
+    read.fields?.amounts.map((amount) => amount.value),
+    [1250]
+  );
+  assert.ok(read.fingerprint?.text);
+
+  const [failed] = (
+    await run(async () => {
+      throw new Error('no core');
+    })
+  ).files;
+  assert.equal(failed.decision, 'assigned');
+  assert.equal(failed.reason, 'filename_rule; ocr_error: Error: no core');
+});
+
+test('notes in the reason when OCR stopped before the last page', async () => {
+  const text = 'Funeral home invoice for services and the burial plot.';
+  const result = await runSortEngine({
+    files: [selected('Estate/scan.png', 'scan')],
+    config,
+    reviewOverrides: {},
+    scanThresholds: thresholds,
+    concurrency: 1,
+    runOcr: async () => ({
+      text,
+      pages: [{ page: 1, confidence: 90, chars: text.length }],
+      pageOffsets: [0],
+      totalPages: 9,
+    }),
+  });
+
+  assert.equal(result.files[0].textSource, 'ocr');
+  assert.equal(result.files[0].text, text);
+  assert.match(result.files[0].reason, /; ocr_pages: 1 of 9$/);
+  assert.equal(result.files[0].ocr?.totalPages, 9);
+});
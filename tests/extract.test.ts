@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { extractFields } from '../src/extract.ts';
+import { buildInventoryCsv, type ProcessedFile } from '../src/reports.ts';
+import { getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+const page1 = 'First National Bank Statement Date: 03/31/2024 Account Number: 1234-5678-90 ';
+const page2 = 'Closing balance $12,345.67 Interest paid $4.10 Card ending in 9876 Opened January 5, 2019 ';
+
+test('extracts amounts, account numbers and statement dates with page and confidence', () => {
+  const fields = extractFields(page1 + page2, [0, page1.length]);
+
+  assert.deepEqual(fields.amounts, [
+    { value: 12345.67, raw: '$12,345.67', page: 2, confidence: 0.9 },
+    { value: 4.1, raw: '$4.10', page: 2, confidence: 0.7 },
+  ]);
+  assert.deepEqual(fields.accountNumbers, [
+    { value: '1234-5678-90', raw: '1234-5678-90', page: 1, confidence: 0.9 },
+    { value: '****9876', raw: 'ending in 9876', page: 2, confidence: 0.6 },
+  ]);
+  assert.deepEqual(
+    fields.statementDates.map((field) => [field.value, field.page, field.confidence]),
+    [
+      ['2024-03-31', 1, 0.9],
+      ['2019-01-05', 2, 0.4],
+    ]
+  );
+});
+
+test('masks partially hidden account numbers and ignores labels without digits', () => {
+  const fields = extractFields('Account Summary. Acct # XXXX-4321 Policy no. ABC');
+  assert.deepEqual(
+    fields.accountNumbers.map((field) => field.value),
+    ['****4321']
+  );
+  assert.deepEqual(extractFields('Statement period 02/30/2024').statementDates, []);
+});
+
+test('inventory.csv groups extracted fields by schedule in config order, then review', () => {
+  const config = getDefaultConfig();
+  const file = (
+    name: string,
+    decision: ProcessedFile['decision'],
+    outputPath: string,
+    value: number,
+    schedule?: string
+  ) =>
+    processedFile(name, {
+      decision,
+      schedule,
+      outputPath,
+      fields: {
+        amounts: [{ value, raw: `$${value}`, page: 1, confidence: 0.9 }],
+        accountNumbers: [],
+        statementDates: [],
+        statementPeriods: [],
+      },
+    });
+  const files = [
+    file('r.pdf', 'review', '706/ReviewNeeded/Unknown/r.pdf', 3),
+    file('c.pdf', 'assigned', '706/C_Cash_Notes/c.pdf', 2, 'C_Cash_Notes'),
+    file('a.pdf', 'assigned', '706/A_Real_Estate/a.pdf', 1, 'A_Real_Estate'),
+    file('d.pdf', 'duplicate', 'DUPLICATES/h/d.pdf', 4),
+  ];
+
+  const rows = buildInventoryCsv(files, config.schedules)
+    .split('\n')
+    .map((row) => row.split(',').map((cell) => cell.replace(/"/g, '')));
+
+  assert.deepEqual(
+    rows.map((row) => [row[0], row[2], row[4], row[5]]),
+    [
+      ['schedule', 'name', 'field', 'value'],
+      ['A_Real_Estate', 'a.pdf', 'amount', '1.00'],
+      ['C_Cash_Notes', 'c.pdf', 'amount', '2.00'],
+      ['ReviewNeeded', 'r.pdf', 'amount', '3.00'],
+    ]
+  );
+});
@@ -0,0 +1,21 @@
+import type { ProcessedFile } from '../../src/reports.ts';
+
+/** A complete ProcessedFile: a review-needed PDF named `name`, with `overrides` applied on top. */
+export function processedFile(name: string, overrides: Partial<ProcessedFile> = {}): ProcessedFile {
+  return {
+    file: new File([name], name),
+    name,
+    relativePath: `Estate/${name}`,
+    size: name.length,
+    type: 'application/pdf',
+    hash: name,
+    hashPrefix: name.slice(0, 8),
+    decision: 'review',
+    candidate: 'Unknown',
+    reason: 'low_confidence',
+    score: 0,
+    outputPath: '',
+    scores: {},
+    ...overrides,
+  };
+}
@@ -2,7 +2,10 @@ import assert from 'node:assert/strict';
 import test from 'node:test';
 import { readFile } from 'node:fs/promises';
 import { classifyDocument } from '../src/classify.ts';
+import { findProximityOffsets, indexText } from '../src/normalize.ts';
+import { buildReports, formatTopTerms } from '../src/reports.ts';
 import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
 
 const fixtureText = await readFile(new URL('./fixtures/golden-set.json', import.meta.url), 'utf8');
 const fixtures = JSON.parse(fixtureText) as Array<{
@@ -36,3 +39,181 @@ test('golden set classification', () => {
     }
   }
 });
+
+test('OCR text bypasses the scanned-PDF check and is keyword scored', () => {
+  const scanned = {
+    filename: 'Scan_0001.pdf',
+    text: '',
+    isPdf: true,
+    config,
+    pdfMetrics: { chars: 0, textItems: 0, pagesSampled: 2 },
+    scannedThresholds: thresholds,
+  };
+
+  assert.match(classifyDocument(scanned).reason, /^likely_scanned_pdf/);
+
+  const ocrText = 'Brokerage statement for stock and bond holdings.';
+  const result = classifyDocument({ ...scanned, text: ocrText, textSource: 'ocr' });
+  assert.equal(result.decision, 'assigned');
+  assert.equal(result.schedule, 'B_Stocks_Bonds');
+
+  assert.equal(classifyDocument({ ...scanned, textSource: 'ocr' }).reason, 'ocr_no_text');
+});
+
+test('negative, required, proximity and regex terms decide their golden cases', () => {
+  const plain = getDefaultConfig();
+  for (const schedule of plain.schedules) {
+    delete schedule.negativeTerms;
+    delete schedule.requiredTerms;
+    delete schedule.proximityTerms;
+    delete schedule.regexTerms;
+  }
+  const withoutConstructs = compileScheduleConfig(plain);
+  const classify = (filename: string, rules = config) => {
+    const fixture = fixtures.find((item) => item.filename === filename);
+    assert.ok(fixture);
+    const { decision, schedule } = classifyDocument({ ...fixture, config: rules, scannedThresholds: thresholds });
+    return [decision, schedule];
+  };
+
+  assert.deepEqual(classify('Brokerage_Holdings.pdf'), ['assigned', 'B_Stocks_Bonds']);
+  assert.deepEqual(classify('Brokerage_Holdings.pdf', withoutConstructs), ['review', undefined]);
+  assert.deepEqual(classify('Insurer_Letter.pdf', withoutConstructs), ['review', undefined]);
+  assert.deepEqual(classify('Plan_Summary.pdf', withoutConstructs), ['review', undefined]);
+  assert.deepEqual(classify('Newsletter.pdf', withoutConstructs), ['assigned', 'U_Conservation_Easement']);
+});
+
+test('regex terms never count empty matches', () => {
+  const rules = getDefaultConfig();
+  rules.schedules[0].regexTerms = [{ pattern: '(probate)?', weight: 5 }];
+  const result = classifyDocument({
+    filename: 'note.pdf',
+    text: 'A short note with no schedule terms.',
+    isPdf: false,
+    config: compileScheduleConfig(rules),
+    scannedThresholds: thresholds,
+  });
+  assert.equal(result.scores[rules.schedules[0].id], 0);
+  assert.equal(result.decision, 'review');
+});
+
+test('proximity terms only count when the terms are close enough', () => {
+  const near = (text: string, within: number) =>
+    findProximityOffsets(indexText(text), 'policy', 'death benefit', within).map(([start, end]) =>
+      text.slice(start, end)
+    );
+  assert.deepEqual(near('Policy number 5, the death benefit', 3), ['Policy']);
+  assert.deepEqual(near('Policy number 5, the death benefit', 2), []);
+  assert.deepEqual(near('death benefit under the policy', 2), ['policy']);
+  assert.deepEqual(near('policy policy', 10), []);
+
+  const text = 'policy one two three four death benefit five six seven policy eight death benefit nine policy';
+  assert.deepEqual(
+    findProximityOffsets(indexText(text), 'policy', 'death benefit', 1).map(([start]) => start),
+    [text.indexOf('policy', 40), text.lastIndexOf('policy')]
+  );
+});
+
+test('path rules assign by folder or boost the keyword score', () => {
+  const letter = {
+    filename: 'letter.pdf',
+    text: 'Enclosed is the policy statement. The policy remains in force.',
+    isPdf: false,
+    scannedThresholds: thresholds,
+  };
+  assert.equal(classifyDocument({ ...letter, config }).decision, 'review');
+
+  const boosted = classifyDocument({ ...letter, relativePath: 'Estate/Life Insurance/2023/letter.pdf', config });
+  assert.equal(boosted.decision, 'assigned');
+  assert.equal(boosted.schedule, 'D_Life_Insurance');
+  assert.equal(boosted.reason, 'keyword_score; path_rule: Life Insurance');
+
+  const draft = getDefaultConfig();
+  draft.pathRules = [{ pattern: '\\bfuneral\\b', schedule: 'J_Funeral_Admin_Expenses', mode: 'assign' }];
+  const assigned = classifyDocument({
+    ...letter,
+    relativePath: 'Funeral/Estate/letter.pdf',
+    config: compileScheduleConfig(draft),
+  });
+  assert.equal(assigned.schedule, 'J_Funeral_Admin_Expenses');
+  assert.equal(assigned.reason, 'path_rule: Funeral');
+});
+
+test('filename rules boost or assign in priority order and defer to clearly conflicting content', () => {
+  const transfer = {
+    filename: 'deed_of_trust_brokerage_transfer.pdf',
+    text: 'Brokerage statement for stock and bond holdings. Dividends were reinvested in the brokerage account.',
+    isPdf: false,
+    scannedThresholds: thresholds,
+  };
+  const draft = getDefaultConfig();
+  draft.filenameRules = [
+    { pattern: '\\bdeed\\b', schedule: 'A_Real_Estate' },
+    { pattern: '\\bbrokerage\\b', schedule: 'B_Stocks_Bonds', mode: 'boost', weight: 12 },
+  ];
+
+  const conflict = classifyDocument({ ...transfer, config: compileScheduleConfig(draft) });
+  assert.equal(conflict.decision, 'review');
+  assert.equal(conflict.candidate, 'B_Stocks_Bonds');
+  assert.equal(conflict.reason, 'filename_content_conflict: filename A_Real_Estate, content B_Stocks_Bonds');
+
+  draft.filenameRules[1].priority = 1;
+  const boosted = classifyDocument({ ...transfer, config: compileScheduleConfig(draft) });
+  assert.equal(boosted.decision, 'assigned');
+  assert.equal(boosted.schedule, 'B_Stocks_Bonds');
+  assert.equal(boosted.reason, 'keyword_score; filename_rule');
+  assert.equal(boosted.scores.B_Stocks_Bonds - 12, conflict.scores.B_Stocks_Bonds);
+
+  const weakContent = classifyDocument({
+    ...transfer,
+    text: 'Warranty deed for the residence.',
+    config: compileScheduleConfig(draft),
+  });
+  assert.equal(weakContent.reason, 'low_confidence; filename_rule');
+});
+
+test('reports the matched terms of each schedule with counts, contributions and offsets', () => {
+  const text = 'Re: Invoice #12, see our CORRESPONDENCE.\nA second invoice is attached.';
+  const result = classifyDocument({ filename: 'notes.pdf', text, isPdf: false, config, scannedThresholds: thresholds });
+
+  assert.equal(result.schedule, 'Admin_General');
+  assert.deepEqual(Object.keys(result.matches ?? {}), ['Admin_General']);
+  const terms = result.matches?.Admin_General ?? [];
+  assert.deepEqual(
+    terms.map((term) => [term.term, term.count, term.contribution]),
+    [
+      ['invoice', 2, 12],
+      ['correspondence', 1, 8],
+    ]
+  );
+  assert.equal(
+    terms.reduce((sum, term) => sum + term.contribution, 0),
+    result.score
+  );
+  assert.deepEqual(
+    terms.flatMap((term) => term.offsets.map(([start, end]) => text.slice(start, end))),
+    ['Invoice', 'invoice', 'CORRESPONDENCE']
+  );
+  const file = processedFile('notes.pdf', { ...result, text });
+  assert.equal(formatTopTerms(file), 'invoice x2 +12; correspondence x1 +8');
+  const reports = buildReports({ files: [file], config: getDefaultConfig(), thresholds, ocrEnabled: false });
+  const [manifestFile] = JSON.parse(reports.manifestJson).files;
+  assert.equal(manifestFile.text, text);
+  assert.deepEqual(manifestFile.matches.Admin_General[0], {
+    kind: 'keyword',
+    term: 'invoice',
+    count: 2,
+    contribution: 12,
+  });
+
+  const insurance = classifyDocument({
+    filename: 'letter.pdf',
+    text: 'The policy, as amended, pays a death benefit of $10,000.',
+    isPdf: false,
+    config,
+    scannedThresholds: thresholds,
+  });
+  const proximity = insurance.matches?.D_Life_Insurance?.find((term) => term.kind === 'proximityTerm');
+  assert.equal(proximity?.term, 'policy within 10 words of death benefit');
+  assert.deepEqual(proximity?.offsets, [[4, 10]]);
+});
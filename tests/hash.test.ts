@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import test from 'node:test';
+import { hashBlob, STREAM_HASH_THRESHOLD_BYTES } from '../src/hash.ts';
+import { createSha256 } from '../src/sha256.ts';
+
+function bytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, index) => (index * 31 + 7) & 0xff);
+}
+
+function nodeSha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+test('incremental SHA-256 matches node:crypto across block and padding boundaries', () => {
+  for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000]) {
+    const data = bytes(length);
+    for (const chunkSize of [1, 7, 64, 1000]) {
+      const sha256 = createSha256();
+      for (let offset = 0; offset < length; offset += chunkSize) {
+        sha256.update(data.subarray(offset, offset + chunkSize));
+      }
+      assert.equal(sha256.digestHex(), nodeSha256(data), `length ${length}, chunk ${chunkSize}`);
+    }
+  }
+});
+
+test('hashBlob streams files above the threshold to the same digest', async () => {
+  const data = bytes(STREAM_HASH_THRESHOLD_BYTES + 12345);
+  assert.equal(await hashBlob(new Blob([data])), nodeSha256(data));
+  assert.equal(await hashBlob(new Blob([data.subarray(0, 100)])), nodeSha256(data.subarray(0, 100)));
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import { classifyDocument } from '../src/classify.ts';
+import {
+  compileLocalModel,
+  getModelSchedules,
+  parseGoldenSet,
+  predictSchedule,
+  setGoldenSet,
+  updateOverrideExamples,
+} from '../src/localModel.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+const config = compileScheduleConfig(getDefaultConfig());
+const thresholds = { minChars: 1, minTextItems: 1 };
+
+const hospice = 'Hospice care billing for the final month. Hospice nursing visits and hospice supplies.';
+
+test('trains on the golden set and updates one override at a time', async () => {
+  const goldenSet = parseGoldenSet(
+    JSON.parse(await readFile(new URL('./fixtures/golden-set.json', import.meta.url), 'utf8'))
+  );
+  const golden = setGoldenSet(null, goldenSet, '2024-05-01T00:00:00.000Z');
+  assert.equal(golden.golden.length, goldenSet.length);
+  const compiled = compileLocalModel(golden);
+  for (const example of goldenSet) {
+    assert.equal(predictSchedule(compiled, example.text)?.vote, example.schedule, example.text);
+  }
+  assert.equal(predictSchedule(compiled, 'zzz qqq'), null);
+  assert.throws(() => parseGoldenSet({ files: [] }), /expected an array/);
+  // Word counts are stored, not the documents.
+  assert.ok(!JSON.stringify(golden).includes(goldenSet[0].text));
+
+  const files = [
+    processedFile('care1.pdf', { text: hospice, overrideApplied: true }),
+    processedFile('care2.pdf', { text: `${hospice} Hospice invoice enclosed.`, overrideApplied: true }),
+    processedFile('copy.pdf', { hash: 'care2.pdf', decision: 'duplicate', text: hospice, overrideApplied: true }),
+    processedFile('unread.pdf', { overrideApplied: true }),
+  ];
+  const overrides = {
+    'care1.pdf': 'J_Funeral_Admin_Expenses',
+    'care2.pdf': 'J_Funeral_Admin_Expenses',
+    'unread.pdf': 'J_Funeral_Admin_Expenses',
+  };
+  const trained = updateOverrideExamples(golden, files, overrides, '2024-05-02T00:00:00.000Z');
+  assert.deepEqual(Object.keys(trained.overrides), ['care1.pdf', 'care2.pdf']);
+  const prediction = predictSchedule(compileLocalModel(trained), 'Statement from the hospice for nursing care.');
+  assert.equal(prediction?.vote, 'J_Funeral_Admin_Expenses');
+  assert.ok((prediction?.confidence ?? 0) > 0.5);
+
+  // A later session without care1.pdf in its results relabels it and undoes care2.pdf; only those
+  // two hashes change.
+  const later = [processedFile('deed.pdf', { text: 'Warranty deed for the house.', overrideApplied: true })];
+  const relabelled = updateOverrideExamples(
+    trained,
+    later,
+    { 'care1.pdf': 'Admin_General', 'deed.pdf': 'A_Real_Estate' },
+    '2024-05-03T00:00:00.000Z',
+    ['care1.pdf', 'care2.pdf']
+  );
+  assert.deepEqual(relabelled.overrides, {
+    'care1.pdf': { ...trained.overrides['care1.pdf'], schedule: 'Admin_General' },
+  });
+  assert.equal(relabelled.golden, golden.golden);
+  assert.ok(getModelSchedules(relabelled).includes('Admin_General'));
+
+  // Without hashes every override is checked, so the new one is learned and the earlier one kept.
+  const updated = updateOverrideExamples(
+    relabelled,
+    later,
+    { 'care1.pdf': 'Admin_General', 'deed.pdf': 'A_Real_Estate' },
+    '2024-05-04T00:00:00.000Z'
+  );
+  assert.deepEqual(Object.keys(updated.overrides), ['care1.pdf', 'deed.pdf']);
+});
+
+test('blends model probabilities into keyword scores and reports the vote', () => {
+  const model = setGoldenSet(
+    null,
+    [
+      { schedule: 'J_Funeral_Admin_Expenses', text: hospice },
+      { schedule: 'J_Funeral_Admin_Expenses', text: `${hospice} Hospice invoice enclosed.` },
+    ],
+    '2024-05-01T00:00:00.000Z'
+  );
+  const classify = (weight?: number) =>
+    classifyDocument({
+      filename: 'care.pdf',
+      text: 'Hospice nursing visits during the final month of care.',
+      isPdf: false,
+      config,
+      scannedThresholds: thresholds,
+      model: weight === undefined ? undefined : { model: compileLocalModel(model), weight },
+    });
+
+  const keywordsOnly = classify();
+  assert.equal(keywordsOnly.decision, 'review');
+  assert.equal(keywordsOnly.modelVote, undefined);
+
+  const blended = classify(0.6);
+  assert.equal(blended.decision, 'assigned');
+  assert.equal(blended.schedule, 'J_Funeral_Admin_Expenses');
+  assert.equal(blended.reason, 'keyword_score; local_model');
+  assert.equal(blended.modelVote, 'J_Funeral_Admin_Expenses');
+  assert.ok((blended.modelConfidence ?? 0) > 0.5);
+
+  const unweighted = classify(0);
+  assert.equal(unweighted.decision, 'review');
+  assert.deepEqual(unweighted.scores, keywordsOnly.scores);
+  assert.equal(unweighted.modelVote, 'J_Funeral_Admin_Expenses');
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { applyNearDuplicateDecision, runSortEngine } from '../src/engine.ts';
+import { dHashRgba, imageSimilarity, textFingerprint, textSimilarity } from '../src/fingerprint.ts';
+import { hashArrayBuffer } from '../src/hash.ts';
+import { findNearDuplicates, getNearDuplicateKey } from '../src/nearDuplicates.ts';
+import { buildReports } from '../src/reports.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+
+const statement =
+  'First National Bank checking account statement for the period ending March 31 2024. ' +
+  'Opening balance 10,200.00, deposits 1,500.00, withdrawals 300.00, closing balance 11,400.00. ' +
+  'Interest earned this period 4.10. Thank you for banking with First National Bank.';
+const letter =
+  'Dear executor, please find enclosed the appraisal of the residence at 12 Elm Street, ' +
+  'prepared by a certified appraiser as of the date of death, together with comparable sales.';
+
+async function statementPdf(title: string, text: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const page = pdf.addPage([600, 800]);
+  const words = text.split(' ');
+  for (let line = 0; line * 10 < words.length; line += 1) {
+    page.drawText(words.slice(line * 10, line * 10 + 10).join(' '), { x: 40, y: 760 - line * 16, size: 10, font });
+  }
+  return pdf.save();
+}
+
+function gradient(width: number, height: number, shift: number): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i += 1) {
+    const value = Math.min(255, ((i % width) * 255) / width + ((i * 7) % 13) + shift);
+    rgba.set([value, value, value, 255], i * 4);
+  }
+  return rgba;
+}
+
+test('text fingerprints score rewordings high and unrelated text low', () => {
+  const a = textFingerprint(statement.repeat(2)) ?? [];
+  const b = textFingerprint(`${statement} ${statement.replace('4.10', '4.12')}`) ?? [];
+  const c = textFingerprint(letter.repeat(2)) ?? [];
+
+  assert.ok(textSimilarity(a, b) >= 0.7);
+  assert.ok(textSimilarity(a, c) < 0.2);
+  assert.equal(textFingerprint('Too short to compare'), undefined);
+});
+
+test('image dHashes survive small brightness changes and skip blank images', () => {
+  const original = dHashRgba(gradient(90, 80, 0), 90, 80) ?? '';
+  const brighter = dHashRgba(gradient(90, 80, 20), 90, 80) ?? '';
+
+  assert.equal(original.length, 16);
+  assert.ok(imageSimilarity(original, brighter) >= 0.9);
+  assert.equal(dHashRgba(new Uint8Array(16 * 16 * 4).fill(255), 16, 16), undefined);
+});
+
+test('confirmed near duplicates become duplicates and reviewer decisions are reversible', async () => {
+  const config = compileScheduleConfig(getDefaultConfig());
+  const download1 = await statementPdf('Download 1', statement);
+  const download2 = await statementPdf('Download 2', statement);
+  const files = [
+    { file: new File([download2], 'statement (1).pdf'), relativePath: 'E/b/statement (1).pdf' },
+    { file: new File([download1], 'statement.pdf'), relativePath: 'E/a/statement.pdf' },
+    { file: new File([await statementPdf('Letter', letter + letter)], 'letter.pdf'), relativePath: 'E/letter.pdf' },
+  ];
+  const key = getNearDuplicateKey(
+    await hashArrayBuffer(download1.slice().buffer),
+    await hashArrayBuffer(download2.slice().buffer)
+  );
+
+  const result = await runSortEngine({
+    files,
+    config,
+    reviewOverrides: {},
+    scanThresholds: { minChars: 1, minTextItems: 1 },
+    concurrency: 2,
+    nearDuplicates: { threshold: 0.85, decisions: { [key]: 'confirmed' } },
+  });
+  const [pair, ...others] = findNearDuplicates(result.files, 0.85);
+  assert.equal(others.length, 0);
+  assert.equal(pair.key, key);
+  assert.equal(pair.kept.relativePath, 'E/a/statement.pdf');
+  assert.equal(result.files[0].decision, 'duplicate');
+  assert.equal(result.files[0].reason, 'near_duplicate');
+  assert.ok(result.files[0].outputPath.startsWith('DUPLICATES/'));
+
+  const duplicatesCsv = buildReports({
+    files: result.files,
+    config: getDefaultConfig(),
+    thresholds: { minChars: 1, minTextItems: 1 },
+    ocrEnabled: false,
+    nearDuplicates: { threshold: 0.85, decisions: { [key]: 'confirmed' } },
+  }).duplicatesCsv;
+  assert.match(duplicatesCsv, /"statement\.pdf","statement \(1\)\.pdf","probable_text","1\.00","confirmed"/);
+
+  const rejected = applyNearDuplicateDecision(result.files, pair, 'rejected', config);
+  assert.equal(rejected[0].decision, result.files[1].decision);
+  assert.equal(rejected[0].nearDuplicateOf, undefined);
+  assert.ok(rejected[0].outputPath.startsWith('706/'));
+});
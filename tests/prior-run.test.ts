@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { runSortEngine, type SelectedFile } from '../src/engine.ts';
+import { buildChangeReport, findReusableEntry, parsePriorRun, type ManifestFile } from '../src/priorRun.ts';
+import { buildReports } from '../src/reports.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+
+const thresholds = { minChars: 250, minTextItems: 30 };
+const config = compileScheduleConfig(getDefaultConfig());
+
+function selected(relativePath: string, content: string): SelectedFile {
+  const name = relativePath.split('/').pop() ?? relativePath;
+  return { file: new File([content], name, { type: 'image/png' }), relativePath };
+}
+
+async function sortAndExport(files: SelectedFile[], reviewOverrides: Record<string, string> = {}, manifest?: string) {
+  const priorRun = manifest ? parsePriorRun(JSON.parse(manifest)) : undefined;
+  const result = await runSortEngine({
+    files,
+    config,
+    reviewOverrides,
+    scanThresholds: thresholds,
+    concurrency: 2,
+    priorRun,
+  });
+  const reports = buildReports({
+    files: result.files,
+    config: getDefaultConfig(),
+    thresholds,
+    ocrEnabled: false,
+    priorRun,
+  });
+  return { files: result.files, reports, priorRun };
+}
+
+test('re-runs keep earlier decisions and output paths and report what changed', async () => {
+  const first = await sortAndExport([
+    selected('Estate/2023/funeral_invoice.png', 'invoice 2023'),
+    selected('Estate/2024/funeral_invoice.png', 'invoice 2024'),
+    selected('Estate/scan.png', 'scan'),
+    selected('Estate/deed.png', 'old deed'),
+    selected('Estate/old_letter.png', 'letter'),
+  ]);
+  assert.equal(first.reports.changesCsv, undefined);
+  const scanHash = first.files[2].hash;
+
+  const second = await sortAndExport(
+    [
+      selected('Estate/2024/funeral_invoice.png', 'invoice 2024'),
+      selected('Estate/scan.png', 'scan'),
+      selected('Estate/deed.png', 'new deed'),
+      selected('Estate/archive/old_letter.png', 'letter'),
+      selected('Estate/new_scan.png', 'new scan'),
+    ],
+    { [scanHash]: 'C_Cash_Notes' },
+    first.reports.manifestJson
+  );
+
+  assert.equal(second.files[0].fromPriorRun, true);
+  assert.equal(second.files[0].outputPath, '706/J_Funeral_Admin_Expenses/funeral_invoice__dup1.png');
+  assert.equal(second.files[1].reason, 'review_override');
+  assert.equal(second.files[2].fromPriorRun, undefined);
+  assert.equal(second.files[3].fromPriorRun, undefined);
+
+  // Clearing the override classifies the file again rather than reusing the overridden decision.
+  const third = await sortAndExport([selected('Estate/scan.png', 'scan')], {}, second.reports.manifestJson);
+  assert.deepEqual(
+    [third.files[0].decision, third.files[0].reason, third.files[0].fromPriorRun],
+    ['review', 'no_text_or_filename_rule', undefined]
+  );
+
+  const changes = buildChangeReport(second.priorRun!, second.files);
+  assert.deepEqual(
+    changes.map((entry) => [entry.change, entry.relativePath || entry.previousRelativePath]),
+    [
+      ['added', 'Estate/new_scan.png'],
+      ['changed', 'Estate/deed.png'],
+      ['moved', 'Estate/archive/old_letter.png'],
+      ['reclassified', 'Estate/scan.png'],
+      ['removed', 'Estate/2023/funeral_invoice.png'],
+    ]
+  );
+  assert.equal(changes[3].previousPlacement, 'review:Unknown');
+  assert.equal(changes[3].placement, 'assigned:C_Cash_Notes');
+  assert.match(second.reports.changesCsv ?? '', /^"change","relative_path"/);
+});
+
+test('reuses only decisions made from the same path that do not depend on settings or OCR', () => {
+  const entry = (relativePath: string, reason: string, extra: Partial<ManifestFile> = {}): ManifestFile => ({
+    name: relativePath.split('/').pop() ?? relativePath,
+    relativePath,
+    size: 1,
+    type: 'application/pdf',
+    hash: 'abc',
+    hashPrefix: 'abc',
+    decision: 'review',
+    candidate: 'Unknown',
+    reason,
+    score: 0,
+    outputPath: `REVIEW_NEEDED/${relativePath}`,
+    scores: {},
+    ...extra,
+  });
+
+  assert.equal(findReusableEntry([entry('Estate/a.pdf', 'low_confidence')], 'Estate/a.pdf')?.reason, 'low_confidence');
+  assert.equal(findReusableEntry([entry('Estate/Bank/a.pdf', 'path_rule: Bank')], 'Estate/a.pdf'), undefined);
+  for (const reason of [
+    'review_override',
+    'file_too_large',
+    'likely_scanned_pdf: low_text_layer',
+    'ocr_error: Error: failed',
+    'filename_rule; ocr_error: Error: failed',
+  ]) {
+    assert.equal(findReusableEntry([entry('Estate/a.pdf', reason)], 'Estate/a.pdf'), undefined, reason);
+  }
+  const nearDuplicate = entry('Estate/a.pdf', 'near_duplicate', { decision: 'duplicate', nearDuplicateOf: 'def' });
+  assert.equal(findReusableEntry([nearDuplicate], 'Estate/a.pdf'), undefined);
+});
+
+test('rejects files that are not sorter manifests', () => {
+  assert.throws(() => parsePriorRun({ totals: {} }), /expected an object with a "files" array/);
+  assert.throws(() => parsePriorRun({ files: [{ hash: 'abc' }] }), /entry 1 is missing/);
+});
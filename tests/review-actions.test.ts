@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { applyReviewOverrides } from '../src/engine.ts';
+import { assignOutputPaths, buildReports, buildZipEntries, type ProcessedFile } from '../src/reports.ts';
+import {
+  applyExportExclusions,
+  getUndoableAction,
+  recordReviewAction,
+  undoReviewAction,
+} from '../src/reviewActions.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+function reviewFile(name: string, hash: string): ProcessedFile {
+  return processedFile(name, { hash, hashPrefix: hash.slice(0, 8) });
+}
+
+test('bulk review actions are logged with the reviewer and undone latest first', () => {
+  const empty = { overrides: { h3: 'C_Cash_Notes' }, excluded: [] };
+  const assigned = recordReviewAction(empty, [], {
+    kind: 'assign',
+    scheduleId: 'Admin_General',
+    hashes: ['h1', 'h2', 'h3'],
+    at: '2024-05-01T10:00:00.000Z',
+    reviewerName: 'Pat',
+  });
+  const excluded = recordReviewAction(assigned.state, assigned.log, {
+    kind: 'exclude',
+    hashes: ['h2'],
+    at: '2024-05-01T10:05:00.000Z',
+  });
+
+  assert.deepEqual(excluded.state, {
+    overrides: { h1: 'Admin_General', h2: 'Admin_General', h3: 'Admin_General' },
+    excluded: ['h2'],
+  });
+  assert.deepEqual(
+    excluded.log.map((action) => [action.id, action.kind, action.reviewerName]),
+    [
+      [1, 'assign', 'Pat'],
+      [2, 'exclude', undefined],
+    ]
+  );
+
+  const first = undoReviewAction(excluded.state, excluded.log, '2024-05-01T11:00:00.000Z', 'Sam');
+  assert.deepEqual(first.state.excluded, []);
+  assert.equal(first.log[1].undoneBy, 'Sam');
+  assert.equal(getUndoableAction(first.log)?.id, 1);
+
+  const second = undoReviewAction(first.state, first.log, '2024-05-01T11:01:00.000Z');
+  assert.deepEqual(second.state, { overrides: { h3: 'C_Cash_Notes' }, excluded: [] });
+  assert.equal(getUndoableAction(second.log), undefined);
+  assert.equal(undoReviewAction(second.state, second.log, '2024-05-01T11:02:00.000Z').log, second.log);
+});
+
+test('excluded files stay in the reports but are left out of the export', () => {
+  const config = compileScheduleConfig(getDefaultConfig());
+  const files = assignOutputPaths(
+    [reviewFile('receipt.pdf', 'aaaa1111'), reviewFile('notes.pdf', 'bbbb2222')],
+    config.schedules
+  );
+  const assigned = applyReviewOverrides(files, { aaaa1111: 'Admin_General', bbbb2222: 'Admin_General' }, config);
+  assert.deepEqual(
+    assigned.map((file) => [file.decision, file.schedule, file.reason]),
+    [
+      ['assigned', 'Admin_General', 'review_override'],
+      ['assigned', 'Admin_General', 'review_override'],
+    ]
+  );
+
+  const excluded = applyExportExclusions(assigned, ['bbbb2222']);
+  const reports = buildReports({
+    files: excluded,
+    config: getDefaultConfig(),
+    thresholds: { minChars: 1, minTextItems: 1 },
+    ocrEnabled: false,
+  });
+  const paths = buildZipEntries({ files: excluded, ...reports, sourcePaths: {}, exportMode: 'full' }).map(
+    (entry) => entry.path
+  );
+
+  assert.ok(paths.includes(excluded[0].outputPath));
+  assert.ok(!paths.includes(excluded[1].outputPath));
+  assert.match(reports.reportCsv, /"notes\.pdf".*"yes","bbbb2222"/);
+  assert.equal(applyExportExclusions(excluded, [])[1].excludedFromExport, undefined);
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { ProcessedFile } from '../src/reports.ts';
+import { suggestRuleChanges } from '../src/ruleSuggestions.ts';
+import { getDefaultConfig } from '../src/scheduleConfig.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+const thresholds = { minChars: 1, minTextItems: 1 };
+
+function pdfFile(name: string, text: string, placement: Partial<ProcessedFile>): ProcessedFile {
+  return processedFile(name, {
+    file: new File([text], name),
+    size: text.length,
+    text,
+    pdfMetrics: { numPages: 1, pagesSampled: 1, chars: text.length, textItems: 20, pageOffsets: [0] },
+    textSource: 'embedded',
+    ...placement,
+  });
+}
+
+const overridden = { decision: 'assigned', schedule: 'J_Funeral_Admin_Expenses', overrideApplied: true } as const;
+
+test('suggests keywords from overridden files with their effect on the results', () => {
+  const files = [
+    pdfFile(
+      'care1.pdf',
+      'Hospice billing summary. Hospice billing for patient care. Hospice billing total.',
+      overridden
+    ),
+    pdfFile('care2.pdf', 'Hospice billing notice. Hospice billing period closed. Hospice billing paid.', overridden),
+    pdfFile('walk.pdf', 'Hospice volunteers walked for patient care in the park.', {}),
+    pdfFile('deed.pdf', 'Warranty deed for the real estate. The deed conveys the property.', {
+      decision: 'assigned',
+      schedule: 'A_Real_Estate',
+    }),
+  ];
+
+  const suggestions = suggestRuleChanges(files, getDefaultConfig(), thresholds);
+  assert.deepEqual(
+    suggestions.map((suggestion) => [suggestion.kind, suggestion.scheduleId, suggestion.term, suggestion.weight]),
+    [
+      ['add_keyword', 'J_Funeral_Admin_Expenses', 'hospice billing', 6],
+      ['add_keyword', 'J_Funeral_Admin_Expenses', 'billing', 6],
+    ]
+  );
+
+  // "hospice" is in half the other files too, so it is not suggested.
+  const [best] = suggestions;
+  assert.deepEqual([best.support, best.examples, best.elsewhere, best.others], [2, 2, 0, 2]);
+  assert.deepEqual(
+    [best.effect.overridesMatchedBefore, best.effect.overridesMatchedAfter, best.effect.overrides],
+    [0, 2, 2]
+  );
+  assert.deepEqual(
+    best.config.schedules.find((schedule) => schedule.id === 'J_Funeral_Admin_Expenses')?.keywords.at(-1),
+    { term: 'hospice billing', weight: 6 }
+  );
+  assert.equal(best.effect.impact.changed.length, 0);
+});
+
+test('suggests nothing until a schedule has two overrides the rules miss', () => {
+  const files = [pdfFile('care1.pdf', 'Hospice billing summary.', overridden)];
+  assert.deepEqual(suggestRuleChanges(files, getDefaultConfig(), thresholds), []);
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { appendRulesVersion, diffScheduleConfigs, getRulesSnapshot, summarizeRulesDiff } from '../src/rulesHistory.ts';
+import { getDefaultConfig } from '../src/scheduleConfig.ts';
+
+test('diffs rules term by term and filename rule by rule', () => {
+  const before = getDefaultConfig();
+  const after = getDefaultConfig();
+  const admin = after.schedules.find((schedule) => schedule.id === 'Admin_General');
+  assert.ok(admin);
+  admin.label = 'Administration';
+  admin.keywords = admin.keywords.filter((term) => term.term !== 'invoice');
+  admin.keywords.push({ term: 'retainer', weight: 7 });
+  admin.keywords[0] = { ...admin.keywords[0], weight: 9 };
+  after.filenameRules.unshift({ pattern: '\\bappraisal\\b', schedule: 'A_Real_Estate' });
+  after.filenameRules[1] = { ...after.filenameRules[1], schedule: 'Admin_General' };
+
+  const entries = diffScheduleConfigs(before, after);
+  assert.deepEqual(
+    entries.map((entry) => [entry.kind, entry.change, entry.item, entry.before, entry.after]),
+    [
+      ['schedule', 'changed', 'label', 'Admin / General', 'Administration'],
+      ['keyword', 'changed', 'correspondence', '8', '9'],
+      ['keyword', 'removed', 'invoice', '6', undefined],
+      ['keyword', 'added', 'retainer', undefined, '7'],
+      ['filenameRule', 'changed', '\\bform 709\\b|\\bgift tax return\\b', 'G_Lifetime_Transfers', 'Admin_General'],
+      ['filenameRule', 'added', '\\bappraisal\\b', undefined, 'A_Real_Estate'],
+    ]
+  );
+  assert.equal(
+    summarizeRulesDiff(entries),
+    '1 schedule changed, 1 keyword changed, 1 keyword removed, 1 keyword added, 1 filename rule changed, 1 filename rule added'
+  );
+  assert.equal(summarizeRulesDiff(diffScheduleConfigs(before, before)), 'No changes');
+
+  const gated = getDefaultConfig();
+  const easement = gated.schedules.find((schedule) => schedule.id === 'U_Conservation_Easement');
+  assert.ok(easement);
+  easement.requiredTerms = ['conservation easement'];
+  easement.regexTerms = [{ pattern: '\\bbook \\d+ page \\d+\\b', weight: 4 }];
+  assert.equal(
+    summarizeRulesDiff(diffScheduleConfigs(before, gated)),
+    '1 regex term added, 1 required term removed, 1 required term added'
+  );
+});
+
+test('records the replaced rules as a baseline and keeps one snapshot per distinct config', () => {
+  const defaults = getDefaultConfig();
+  const edited = getDefaultConfig();
+  edited.filenameRules = [];
+
+  let history = appendRulesVersion(
+    { versions: [], snapshots: {} },
+    { savedAt: '2026-01-01T00:00:00.000Z', action: 'save', hash: 'h2', config: edited },
+    { hash: 'h1', config: defaults }
+  );
+  history = appendRulesVersion(
+    history,
+    { savedAt: '2026-01-02T00:00:00.000Z', action: 'restore', hash: 'h1', restoredFrom: 1, config: defaults },
+    { hash: 'h2', config: edited }
+  );
+
+  assert.deepEqual(
+    history.versions.map((version) => [version.version, version.action, version.hash]),
+    [
+      [1, 'baseline', 'h1'],
+      [2, 'save', 'h2'],
+      [3, 'restore', 'h1'],
+    ]
+  );
+  assert.deepEqual(Object.keys(history.snapshots).sort(), ['h1', 'h2']);
+  assert.deepEqual(getRulesSnapshot(history, 2)?.filenameRules, []);
+  assert.equal(getRulesSnapshot(history, 4), undefined);
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { runSortEngine, type SelectedFile } from '../src/engine.ts';
+import { assignOutputPaths } from '../src/reports.ts';
+import { applyRulesImpact, previewRulesImpact } from '../src/rulesPreview.ts';
+import { compileScheduleConfig, getDefaultConfig } from '../src/scheduleConfig.ts';
+
+const thresholds = {
+  minChars: 250,
+  minTextItems: 30,
+};
+
+function selected(relativePath: string, content: string): SelectedFile {
+  const name = relativePath.split('/').pop() ?? relativePath;
+  return { file: new File([content], name, { type: 'image/png' }), relativePath };
+}
+
+test('previews which files a draft rule set would move and applies them on approval', async () => {
+  const result = await runSortEngine({
+    files: [
+      selected('Estate/funeral_invoice.png', 'invoice'),
+      selected('Estate/a/trustee notes.png', 'notes'),
+      selected('Estate/b/trustee notes.png', 'notes'),
+      selected('Estate/payoff.png', 'payoff'),
+      selected('Estate/photo.png', 'photo'),
+    ],
+    config: compileScheduleConfig(getDefaultConfig()),
+    reviewOverrides: {},
+    scanThresholds: thresholds,
+    concurrency: 2,
+  });
+  const files = result.files.map((file) =>
+    file.name === 'payoff.png' ? { ...file, overrideApplied: true, reason: 'review_override' } : file
+  );
+
+  const draft = getDefaultConfig();
+  draft.filenameRules = draft.filenameRules.filter((rule) => !rule.pattern.includes('funeral'));
+  draft.filenameRules.push({ pattern: '\\bnotes\\b', schedule: 'Admin_General' });
+  const impact = previewRulesImpact(files, compileScheduleConfig(draft), thresholds);
+
+  assert.deepEqual(
+    impact.changed.map((entry) => [
+      entry.relativePath,
+      entry.before.schedule,
+      entry.after.decision,
+      entry.after.schedule,
+    ]),
+    [
+      ['Estate/funeral_invoice.png', 'J_Funeral_Admin_Expenses', 'review', undefined],
+      ['Estate/a/trustee notes.png', undefined, 'assigned', 'Admin_General'],
+    ]
+  );
+  assert.equal(impact.unchanged, 1);
+  assert.equal(impact.skipped, 1);
+
+  const applied = assignOutputPaths(applyRulesImpact(files, impact), draft.schedules);
+  assert.deepEqual(
+    applied.map((file) => [file.relativePath, file.decision, file.schedule, file.outputPath]),
+    [
+      ['Estate/funeral_invoice.png', 'review', undefined, '706/ReviewNeeded/Unknown/funeral_invoice.png'],
+      ['Estate/a/trustee notes.png', 'assigned', 'Admin_General', '706/Admin_General/trustee notes.png'],
+      ['Estate/b/trustee notes.png', 'duplicate', 'Admin_General', applied[2].outputPath],
+      ['Estate/payoff.png', 'assigned', 'K_Debts_Mortgages', '706/K_Debts_Mortgages/payoff.png'],
+      ['Estate/photo.png', 'review', undefined, '706/ReviewNeeded/Unknown/photo.png'],
+    ]
+  );
+});
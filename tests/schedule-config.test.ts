@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { classifyDocument } from '../src/classify.ts';
+import {
+  compileScheduleConfig,
+  getDefaultConfig,
+  getScheduleFolder,
+  isFormEditable,
+  validateScheduleConfig,
+  type ScheduleConfig,
+} from '../src/scheduleConfig.ts';
+
+const thresholds = {
+  minChars: 250,
+  minTextItems: 30,
+};
+
+function splitOtherProperty(): ScheduleConfig {
+  const config = getDefaultConfig();
+  const index = config.schedules.findIndex((schedule) => schedule.id === 'F_Other_Property');
+  config.schedules.splice(
+    index,
+    1,
+    {
+      id: 'F_Vehicles',
+      label: 'Schedule F - Vehicles',
+      folder: 'F1_Vehicles',
+      keywords: [{ term: 'vehicle title', weight: 12 }],
+      smallTerms: [{ term: 'vin', weight: 2 }],
+    },
+    {
+      id: 'F_Business_Interests',
+      label: 'Schedule F - Business Interests',
+      folder: 'F2_Business_Interests',
+      keywords: [{ term: 'operating agreement', weight: 12 }],
+      smallTerms: [{ term: 'llc', weight: 2 }],
+    },
+    {
+      id: 'F_Household_Goods',
+      label: 'Schedule F - Household Goods',
+      folder: 'F3_Household_Goods',
+      keywords: [{ term: 'household goods', weight: 12 }],
+      smallTerms: [{ term: 'furniture', weight: 2 }],
+    }
+  );
+  return config;
+}
+
+test('split schedules from the config classify and map to their folders', () => {
+  const { config, errors } = validateScheduleConfig(splitOtherProperty());
+  assert.deepEqual(errors, []);
+  assert.ok(config);
+
+  const compiled = compileScheduleConfig(config);
+  const result = classifyDocument({
+    filename: 'Smith_LLC.pdf',
+    text: 'Operating agreement of Smith Holdings LLC. Amended operating agreement.',
+    isPdf: true,
+    config: compiled,
+    scannedThresholds: thresholds,
+  });
+
+  assert.equal(result.decision, 'assigned');
+  assert.equal(result.schedule, 'F_Business_Interests');
+  assert.equal(getScheduleFolder('F_Business_Interests', config.schedules), 'F2_Business_Interests');
+  assert.equal(getScheduleFolder('A_Real_Estate', config.schedules), 'A_Real_Estate');
+});
+
+test('validation rejects duplicate ids, clashing folders and rules for unknown schedules', () => {
+  const config = splitOtherProperty();
+  config.schedules.push({ ...config.schedules[0] });
+  config.schedules[1].folder = 'f1_vehicles';
+  config.filenameRules.push({ pattern: 'boat', schedule: 'F_Other_Property' });
+
+  const { config: validated, errors } = validateScheduleConfig(config);
+
+  assert.equal(validated, undefined);
+  assert.ok(errors.some((error) => error.includes('"Admin_General" is used more than once')));
+  assert.ok(errors.some((error) => error.includes('folder "F1_Vehicles" is used by another schedule')));
+  assert.ok(errors.some((error) => error.includes('unknown schedule "F_Other_Property"')));
+});
+
+test('validation rejects folder names that would escape the 706 folder', () => {
+  const config = getDefaultConfig();
+  config.schedules[0].folder = '../Admin';
+
+  const { errors } = validateScheduleConfig(config);
+
+  assert.ok(errors.some((error) => error.includes('folder "../Admin"')));
+});
+
+test('validation ties each problem to the field that caused it', () => {
+  const config = getDefaultConfig();
+  config.schedules[2].keywords[1].term = ' ';
+  config.schedules[2].smallTerms[0].weight = Number.NaN;
+  config.filenameRules[1].pattern = '(unclosed';
+
+  const { issues } = validateScheduleConfig(config);
+
+  assert.deepEqual(
+    issues.map((issue) => issue.path),
+    ['schedules.2.keywords.1.term', 'schedules.2.smallTerms.0.weight', 'filenameRules.1.pattern']
+  );
+  assert.equal(issues[0].message, 'Enter a term.');
+  assert.match(issues[2].message, /^Not a valid regex: /);
+  assert.equal(isFormEditable(config), true);
+  assert.equal(isFormEditable({ schedules: [{ keywords: 'x', smallTerms: [] }], filenameRules: [] }), false);
+});
+
+test('validation checks negative, required, proximity and regex terms', () => {
+  const config = getDefaultConfig();
+  assert.deepEqual(validateScheduleConfig(config).errors, []);
+
+  const admin = config.schedules[0];
+  admin.negativeTerms = [{ term: 'brokerage', weight: 4 }];
+  admin.requiredTerms = [''];
+  admin.proximityTerms = [{ terms: ['policy'] as unknown as [string, string], within: 2.5, weight: 3 }];
+  admin.regexTerms = [
+    { pattern: '[a-', weight: 2 },
+    { pattern: '\\d*', weight: 2 },
+    { pattern: '(trust)?', weight: 2 },
+  ];
+
+  const { config: validated, issues } = validateScheduleConfig(config);
+
+  assert.equal(validated, undefined);
+  assert.deepEqual(
+    issues.map((issue) => issue.path),
+    [
+      'schedules.0.negativeTerms.0.weight',
+      'schedules.0.requiredTerms.0',
+      'schedules.0.proximityTerms.0.terms',
+      'schedules.0.proximityTerms.0.within',
+      'schedules.0.regexTerms.0.pattern',
+      'schedules.0.regexTerms.1.pattern',
+      'schedules.0.regexTerms.2.pattern',
+    ]
+  );
+  assert.equal(issues.at(-1)?.message, 'Pattern must not match an empty string.');
+});
+
+test('validation checks rule modes, boost weights and priorities', () => {
+  const config = getDefaultConfig();
+  config.filenameRules[0] = { ...config.filenameRules[0], mode: 'boost', priority: 'high' as unknown as number };
+  config.pathRules = [
+    { pattern: '\\bbank\\b', schedule: 'C_Cash_Notes', mode: 'move' as 'assign' },
+    { pattern: '\\bhouse\\b', schedule: 'A_Real_Estate', mode: 'boost' },
+    { pattern: '(', schedule: 'Nowhere', mode: 'assign' },
+  ];
+
+  const { config: validated, issues } = validateScheduleConfig(config);
+
+  assert.equal(validated, undefined);
+  assert.deepEqual(
+    issues.map((issue) => issue.path),
+    [
+      'filenameRules.0.weight',
+      'pathRules.0.mode',
+      'pathRules.1.weight',
+      'pathRules.2.pattern',
+      'pathRules.2.schedule',
+      'filenameRules.0.priority',
+    ]
+  );
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { extractFields } from '../src/extract.ts';
+import type { ProcessedFile } from '../src/reports.ts';
+import {
+  EMPTY_ESTATE_PROFILE,
+  findAccountsLackingValuationStatement,
+  getValuationCoverage,
+  getValuationDate,
+} from '../src/valuation.ts';
+import { processedFile } from './fixtures/processed-file.ts';
+
+function statement(name: string, text: string, schedule = 'C_Cash_Notes'): ProcessedFile {
+  return processedFile(name, {
+    decision: 'assigned',
+    schedule,
+    outputPath: `706/${schedule}/${name}`,
+    fields: extractFields(text),
+  });
+}
+
+test('valuation date is the date of death, or six months later under the election', () => {
+  const profile = { ...EMPTY_ESTATE_PROFILE, dateOfDeath: '2023-08-31' };
+  assert.equal(getValuationDate(profile), '2023-08-31');
+  assert.equal(getValuationDate({ ...profile, alternateValuation: true }), '2024-02-29');
+  assert.equal(getValuationDate({ ...profile, dateOfDeath: '2023-01-15', alternateValuation: true }), '2023-07-15');
+  assert.equal(getValuationDate({ ...profile, dateOfDeath: '' }), null);
+  assert.equal(getValuationDate({ ...profile, dateOfDeath: '2023-02-30' }), null);
+});
+
+test('flags statements whose period misses the valuation date and accounts without one', () => {
+  const files = [
+    statement('march.pdf', 'Account Number: 1111-2222 Statement period 03/01/2024 - 03/31/2024'),
+    statement('april.pdf', 'Account Number: 1111-2222 Statement period 04/01/2024 through 04/30/2024'),
+    statement(
+      'brokerage.pdf',
+      'Account #: 9999-0000 For the period January 1, 2024 to March 31, 2024',
+      'B_Stocks_Bonds'
+    ),
+    statement('letter.pdf', 'Account Number: 5555-6666 Dated 03/15/2024'),
+  ];
+
+  assert.deepEqual(
+    files.map((file) => getValuationCoverage(file, '2024-04-15')),
+    ['outside', 'covered', 'outside', 'no_period']
+  );
+  assert.deepEqual(findAccountsLackingValuationStatement(files, '2024-04-15'), [
+    {
+      account: '9999-0000',
+      schedule: 'B_Stocks_Bonds',
+      documents: ['706/B_Stocks_Bonds/brokerage.pdf'],
+      periods: ['2024-01-01 to 2024-03-31'],
+    },
+    {
+      account: '5555-6666',
+      schedule: 'C_Cash_Notes',
+      documents: ['706/C_Cash_Notes/letter.pdf'],
+      periods: [],
+    },
+  ]);
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createWorkerPool, type FileJobRequest } from '../src/workerPool.ts';
+
+// Stands in for fileWorker.ts: replies with the byte length after a delay, and never
+// replies to files named slow.*.
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+  terminated = false;
+  received: FileJobRequest[] = [];
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: FileJobRequest, transfer?: Transferable[]) {
+    this.received.push(request);
+    let size: number;
+    if (request.kind === 'hash') {
+      // Files go over as-is so the worker can stream them; only PDF buffers are transferred.
+      assert.equal(transfer, undefined);
+      if ((request.file as File).name.startsWith('slow.')) return;
+      size = request.file.size;
+    } else {
+      assert.deepEqual(transfer, [request.buffer]);
+      size = request.buffer.byteLength;
+    }
+    setTimeout(() => {
+      if (this.terminated) return;
+      this.dispatchEvent(new MessageEvent('message', { data: { id: request.id, ok: true, result: `len-${size}` } }));
+    }, 5);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+function createPool(size: number) {
+  FakeWorker.instances = [];
+  return createWorkerPool(size, () => new FakeWorker() as unknown as Worker);
+}
+
+test('runs at most `size` jobs at once on reused workers', async () => {
+  const pool = createPool(2);
+  const files = ['a', 'bb', 'ccc', 'dddd', 'eeeee'].map((content) => new File([content], `${content}.pdf`));
+
+  const hashes = await Promise.all(files.map((file) => pool.hash(file)));
+
+  assert.deepEqual(hashes, ['len-1', 'len-2', 'len-3', 'len-4', 'len-5']);
+  assert.equal(await pool.extractPdfText(files[1]), 'len-2');
+  assert.equal(FakeWorker.instances.length, 2);
+  pool.terminate();
+  assert.ok(FakeWorker.instances.every((worker) => worker.terminated));
+});
+
+test('aborting terminates the worker running the job and replaces it for later jobs', async () => {
+  const pool = createPool(1);
+  const controller = new AbortController();
+
+  const pending = pool.hash(new File(['slow'], 'slow.pdf'), controller.signal);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  controller.abort();
+
+  await assert.rejects(pending, { name: 'AbortError' });
+  assert.equal(FakeWorker.instances[0].terminated, true);
+
+  assert.equal(await pool.hash(new File(['after'], 'after.pdf')), 'len-5');
+  assert.equal(FakeWorker.instances.length, 2);
+  pool.terminate();
+});
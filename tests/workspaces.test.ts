@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { getDefaultConfig } from '../src/scheduleConfig.ts';
+import { DEFAULT_WORKSPACE_ID, workspaceKey } from '../src/storage.ts';
+import { parseWorkspaceExport } from '../src/workspaces.ts';
+
+function exported(overrides: Record<string, unknown> = {}) {
+  return {
+    format: 'estate706-workspace',
+    version: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    name: 'Estate of A. Smith',
+    config: getDefaultConfig(),
+    rulesAudit: [],
+    reviewOverrides: { abc: 'A_Real_Estate' },
+    nearDuplicateDecisions: {},
+    estateProfile: { dateOfDeath: '2024-03-15' },
+    sessions: [{ id: 's1', files: [] }],
+    ...overrides,
+  };
+}
+
+test('scopes storage keys by workspace and keeps the original keys for the default one', () => {
+  assert.equal(workspaceKey('estate706.reviewOverrides.v1', DEFAULT_WORKSPACE_ID), 'estate706.reviewOverrides.v1');
+  assert.equal(workspaceKey('estate706.reviewOverrides.v1', 'w1'), 'estate706.reviewOverrides.v1@w1');
+});
+
+test('parses workspace exports and reports every problem in invalid ones', () => {
+  const parsed = parseWorkspaceExport(exported());
+  assert.equal(parsed.name, 'Estate of A. Smith');
+  assert.deepEqual(parsed.estateProfile, { decedentName: '', dateOfDeath: '2024-03-15', alternateValuation: false });
+  assert.equal(parseWorkspaceExport(exported({ config: null })).config, null);
+
+  assert.throws(() => parseWorkspaceExport({ files: [] }), /Not a workspace export file/);
+  assert.throws(() => parseWorkspaceExport(exported({ version: 2 })), /Unsupported workspace export version 2/);
+  assert.throws(
+    () => parseWorkspaceExport(exported({ name: ' ', reviewOverrides: [], sessions: [{}] })),
+    /name must be a non-empty string\.\nreviewOverrides must be an object\.\nsessions must be an array/
+  );
+});
@@ -4,4 +4,16 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      output: {
+        // Tesseract loads language data and its core by directory + fixed filename, so the
+        // bundled eng.traineddata.gz and tesseract-core-*.wasm.js must keep their names (see src/ocr.ts).
+        assetFileNames: (assetInfo) =>
+          assetInfo.names.some((name) => name.endsWith('.traineddata.gz') || /^tesseract-core.*\.wasm\.js$/.test(name))
+            ? 'assets/[name][extname]'
+            : 'assets/[name]-[hash][extname]',
+      },
+    },
+  },
 })